@@ -6,9 +6,20 @@
  * Provides commands to initialize, validate, and manage AgentGuard policies
  */
 
-import { writeFile } from 'fs/promises';
+import { readFile, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
-import { AgentGuard, PolicyLoader, Logger } from './index.js';
+import {
+  AgentGuard,
+  AuditLog,
+  BreakGlass,
+  PolicyLoader,
+  Logger,
+  generatePolicyKeys,
+  parseSigningKey,
+  parseVerificationKey,
+  signPolicy,
+} from './index.js';
+import type { ConditionExplanation, PolicySigningAlgorithm } from './types.js';
 
 interface CLICommand {
   name: string;
@@ -33,6 +44,31 @@ class AgentGuardCLI {
       description: 'Test a tool call against a policy',
       handler: this.testCommand.bind(this),
     },
+    {
+      name: 'audit-verify',
+      description: 'Verify the hash chain of an audit log',
+      handler: this.auditVerifyCommand.bind(this),
+    },
+    {
+      name: 'break-glass',
+      description: 'Issue a signed, time-limited override of BLOCK decisions',
+      handler: this.breakGlassCommand.bind(this),
+    },
+    {
+      name: 'keygen',
+      description: 'Generate a key for signing policy files',
+      handler: this.keygenCommand.bind(this),
+    },
+    {
+      name: 'sign',
+      description: 'Sign a policy file and the files it extends and includes',
+      handler: this.signCommand.bind(this),
+    },
+    {
+      name: 'verify',
+      description: 'Verify the signatures of a policy file and the files it uses',
+      handler: this.verifyCommand.bind(this),
+    },
     {
       name: 'help',
       description: 'Show help information',
@@ -182,28 +218,58 @@ const protectedTool = guard.protect('tool_name', yourToolFunction);
         metadata: { source: 'cli-test' },
       };
 
-      // Use reflection to access private method for testing
-      const evaluateMethod = (guard as any).evaluateToolCall.bind(guard);
-      const result = await evaluateMethod(toolCall);
+      const explanation = await guard.explain(toolCall);
 
       console.log('🔍 Policy Evaluation Result:');
-      console.log(`  Decision: ${result.decision}`);
-      console.log(`  Reason: ${result.reason}`);
+      console.log(`  Decision: ${explanation.decision}`);
+      console.log(`  Reason: ${explanation.reason}`);
 
-      if (result.rule) {
-        console.log(`  Matched Rule: ${result.rule.name}`);
-        console.log(`  Rule Priority: ${result.rule.priority || 0}`);
+      if (explanation.rule) {
+        console.log(`  Matched Rule: ${explanation.rule.name}`);
+        console.log(`  Rule Priority: ${explanation.rule.priority || 0}`);
       }
 
-      if (result.approvalRequestId) {
-        console.log(`  Approval Request ID: ${result.approvalRequestId}`);
+      console.log(`  Precedence: ${explanation.priorityReason}`);
+
+      if (explanation.rules.length > 0) {
+        console.log('\nRules considered:');
+        explanation.rules.forEach(ruleExplanation => {
+          const tags = [
+            ruleExplanation.rule.mode === 'shadow' && ' [shadow]',
+            ruleExplanation.inactive === 'expired' && ' [expired]',
+            ruleExplanation.inactive === 'notYetValid' && ' [not yet valid]',
+            ruleExplanation.outOfScope && ' [out of scope]',
+            ruleExplanation.rateLimit &&
+              (ruleExplanation.rateLimit.exceeded
+                ? ' [rate limit exceeded]'
+                : ` [rate limit: ${ruleExplanation.rateLimit.remaining} left]`),
+            ruleExplanation.budget &&
+              (ruleExplanation.budget.exceeded
+                ? ' [budget exceeded]'
+                : ` [budget: ${ruleExplanation.budget.remaining} left]`),
+          ]
+            .filter(Boolean)
+            .join('');
+          console.log(
+            `  ${ruleExplanation.matched ? '✓' : '✗'} ${ruleExplanation.rule.name} (${ruleExplanation.rule.action}) - Priority: ${ruleExplanation.priority}${tags}`,
+          );
+          ruleExplanation.conditions.forEach(condition =>
+            this.printConditionExplanation(condition, '      '),
+          );
+        });
       }
 
       // Show what would happen
-      switch (result.decision) {
+      switch (explanation.decision) {
         case 'ALLOW':
           console.log('\n✅ This tool call would be ALLOWED');
           break;
+        case 'MODIFY': {
+          const { modifiedParameters } = await guard.evaluate(toolCall);
+          console.log('\n✏️  This tool call would be ALLOWED with modified parameters');
+          console.log('   Modified parameters:', modifiedParameters);
+          break;
+        }
         case 'BLOCK':
           console.log('\n❌ This tool call would be BLOCKED');
           break;
@@ -219,6 +285,202 @@ const protectedTool = guard.protect('tool_name', yourToolFunction);
     }
   }
 
+  private async auditVerifyCommand(args: string[]): Promise<void> {
+    const [logPath] = args;
+
+    if (!logPath) {
+      console.error('Usage: agentguard audit-verify <audit-log-path>');
+      return;
+    }
+
+    if (!existsSync(logPath)) {
+      console.error(`Audit log not found: ${logPath}`);
+      return;
+    }
+
+    console.log(`Verifying audit log: ${logPath}`);
+
+    const result = await AuditLog.verify(logPath);
+
+    if (result.valid) {
+      console.log(`✅ Audit log verified: ${result.entryCount} entries, chain intact`);
+      if (result.lastHash) {
+        console.log(`  Last hash: ${result.lastHash}`);
+      }
+      return;
+    }
+
+    console.error(`❌ Audit log verification failed: ${result.issues.length} issue(s)`);
+    result.issues.forEach(issue => {
+      const sequence = issue.sequence !== undefined ? ` (sequence ${issue.sequence})` : '';
+      console.error(`  Line ${issue.line}${sequence}: ${issue.reason}`);
+    });
+    process.exit(1);
+  }
+
+  private async breakGlassCommand(args: string[]): Promise<void> {
+    const options: Record<string, string> = {};
+    for (const arg of args) {
+      const [key, value] = arg.split('=', 2);
+      if (key && value !== undefined) {
+        options[key] = value;
+      }
+    }
+
+    const secret = process.env.AGENTGUARD_BREAK_GLASS_SECRET;
+    const { reason, by, agent, tools, minutes = '60' } = options;
+
+    if (!reason || !by || (!agent && !tools)) {
+      console.error(
+        'Usage: agentguard break-glass reason=<text> by=<operator> [agent=<id>] [tools=<a,b>] [minutes=60]',
+      );
+      console.log('\nThe grant must be scoped to an agent, tools, or both.');
+      console.log(
+        'The token is signed with the AGENTGUARD_BREAK_GLASS_SECRET environment variable.',
+      );
+      process.exit(1);
+    }
+
+    if (!secret) {
+      console.error('AGENTGUARD_BREAK_GLASS_SECRET is not set');
+      process.exit(1);
+    }
+
+    const token = new BreakGlass(secret).issue({
+      ...(agent && { agentId: agent }),
+      ...(tools && { toolNames: tools.split(',') }),
+      issuedBy: by,
+      reason,
+      ttl: Number(minutes) * 60 * 1000,
+    });
+
+    console.log(`🚨 Break-glass token (valid for ${minutes} minutes):`);
+    console.log(token);
+    console.log('\nActivate it with: guard.activateBreakGlass(token)');
+  }
+
+  private async keygenCommand(args: string[]): Promise<void> {
+    const [algorithm = 'ed25519', prefix = 'agentguard-policy'] = args;
+
+    if (algorithm !== 'ed25519' && algorithm !== 'hmac-sha256') {
+      console.error('Usage: agentguard keygen [ed25519|hmac-sha256] [output-prefix]');
+      process.exit(1);
+    }
+
+    const keyPath = `${prefix}.key`;
+    const publicKeyPath = `${prefix}.pub`;
+    for (const path of algorithm === 'ed25519' ? [keyPath, publicKeyPath] : [keyPath]) {
+      if (existsSync(path)) {
+        console.error(`Key file already exists: ${path}`);
+        process.exit(1);
+      }
+    }
+
+    const { signingKey, verificationKey } = generatePolicyKeys(algorithm as PolicySigningAlgorithm);
+
+    if (signingKey.algorithm === 'ed25519' && verificationKey.algorithm === 'ed25519') {
+      await writeFile(keyPath, signingKey.privateKey, { mode: 0o600 });
+      await writeFile(publicKeyPath, verificationKey.publicKey);
+      console.log(`🔑 Created Ed25519 signing key: ${keyPath}`);
+      console.log(`   Public key for verification: ${publicKeyPath}`);
+      console.log('\nKeep the signing key with whoever approves policy changes;');
+      console.log('deploy only the public key with your agents.');
+    } else if (signingKey.algorithm === 'hmac-sha256') {
+      await writeFile(keyPath, signingKey.secret, { mode: 0o600 });
+      console.log(`🔑 Created HMAC-SHA256 secret: ${keyPath}`);
+      console.log('\nThe same secret signs and verifies policies; keep it out of the policy repo.');
+    }
+  }
+
+  private async signCommand(args: string[]): Promise<void> {
+    const [policyPath, keyPath] = args;
+
+    if (!policyPath || !keyPath) {
+      console.error('Usage: agentguard sign <policy-path> <signing-key-file>');
+      process.exit(1);
+    }
+
+    const key = parseSigningKey(await readFile(keyPath, 'utf-8'));
+
+    // Only valid policies are signed, and loading finds the files they extend and include
+    const loader = new PolicyLoader(new Logger({ enabled: false }));
+    await loader.loadPolicy(policyPath);
+
+    for (const file of loader.getSourceFiles(policyPath)) {
+      const signature = signPolicy(await readFile(file), key);
+      await writeFile(`${file}.sig`, `${JSON.stringify(signature, null, 2)}\n`);
+      console.log(`✍️  Signed ${file} (${signature.algorithm})`);
+    }
+  }
+
+  private async verifyCommand(args: string[]): Promise<void> {
+    const [policyPath, keyPath] = args;
+
+    if (!policyPath || !keyPath) {
+      console.error('Usage: agentguard verify <policy-path> <verification-key-file>');
+      process.exit(1);
+    }
+
+    const verificationKey = parseVerificationKey(await readFile(keyPath, 'utf-8'));
+    const loader = new PolicyLoader(new Logger({ enabled: false }), { verificationKey });
+
+    try {
+      await loader.loadPolicy(policyPath);
+    } catch (error) {
+      console.error('❌ Policy signature verification failed:');
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    console.log(`✅ Policy signatures verified (${verificationKey.algorithm}):`);
+    loader.getSourceFiles(policyPath).forEach(file => console.log(`  ${file}`));
+  }
+
+  private printConditionExplanation(condition: ConditionExplanation, indent: string): void {
+    const mark = condition.passed ? '✓' : '✗';
+
+    if (condition.type === 'field') {
+      console.log(
+        `${indent}${mark} ${condition.field} ${condition.operator} ${JSON.stringify(condition.expected)} (actual: ${JSON.stringify(condition.actual) ?? 'undefined'})`,
+      );
+      return;
+    }
+
+    if (condition.type === 'previousCall') {
+      const status = condition.status ? ` ${condition.status}` : '';
+      const within = condition.within !== undefined ? ` within ${condition.within}ms` : '';
+      console.log(
+        `${indent}${mark} previousCall ${condition.toolName}${status}${within} (matched: ${condition.matchedCall?.timestamp ?? 'none'})`,
+      );
+      return;
+    }
+
+    if (condition.type === 'taint') {
+      const label = condition.label ? ` ${condition.label}` : '';
+      const matched = condition.matches.map(match => match.field).join(', ') || 'none';
+      console.log(`${indent}${mark} taint${label} in ${condition.field} (matched: ${matched})`);
+      return;
+    }
+
+    if (condition.type === 'schedule') {
+      const { date, time, day, timezone } = condition.localTime;
+      console.log(
+        `${indent}${mark} schedule ${JSON.stringify(condition.schedule)} (at: ${day} ${date} ${time} ${timezone})`,
+      );
+      return;
+    }
+
+    if (condition.type === 'window') {
+      const matched =
+        condition.matchedSchedule !== undefined ? `schedule ${condition.matchedSchedule}` : 'none';
+      console.log(`${indent}${mark} window ${condition.window} (matched: ${matched})`);
+      return;
+    }
+
+    console.log(`${indent}${mark} ${condition.type}:`);
+    condition.conditions.forEach(child => this.printConditionExplanation(child, `${indent}  `));
+  }
+
   private async helpCommand(args: string[]): Promise<void> {
     console.log('AgentGuard CLI - Security toolkit for AI agents');
     console.log('');
@@ -237,6 +499,11 @@ const protectedTool = guard.protect('tool_name', yourToolFunction);
     console.log('  agentguard validate                      # Validate default policy file');
     console.log('  agentguard validate my-policy.yaml       # Validate specific policy file');
     console.log('  agentguard test database_delete id=123   # Test a tool call');
+    console.log('  agentguard audit-verify audit.jsonl      # Check an audit log for tampering');
+    console.log('  agentguard break-glass reason="Incident 42" by=alice tools=deploy minutes=30');
+    console.log('  agentguard keygen ed25519 security-team  # Create a policy signing key pair');
+    console.log('  agentguard sign policy.yaml security-team.key   # Write policy.yaml.sig');
+    console.log('  agentguard verify policy.yaml security-team.pub # Check policy signatures');
     console.log('');
     console.log('For more information, visit: https://github.com/your-org/agentguard');
   }
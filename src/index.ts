@@ -15,6 +15,23 @@ export { PolicyLoader } from './lib/policy-loader.js';
 export { HITLManager } from './lib/hitl-manager.js';
 export { Logger } from './lib/logger.js';
 export { WebhookSecurity } from './lib/webhook-security.js';
+export { AuditLog } from './lib/audit-log.js';
+export { InMemoryApprovalStore, FileApprovalStore } from './lib/approval-store.js';
+export { ApprovalReceiver } from './lib/approval-receiver.js';
+export { createApprovalHandler } from './lib/approval-handler.js';
+export { TerminalApprover } from './lib/terminal-approver.js';
+export { InMemoryCounterStore, KeyValueCounterStore } from './lib/counter-store.js';
+export { SessionHistory } from './lib/session-history.js';
+export { TaintTracker } from './lib/taint-tracker.js';
+export { BreakGlass } from './lib/break-glass.js';
+export { PolicyWatcher } from './lib/policy-watcher.js';
+export {
+  generatePolicyKeys,
+  signPolicy,
+  verifyPolicySignature,
+  parseSigningKey,
+  parseVerificationKey,
+} from './lib/policy-signing.js';
 
 // Type exports
 export type {
@@ -23,20 +40,80 @@ export type {
   ToolCall,
   GuardResult,
   AgentGuardConfig,
+  PolicyExplanation,
+  RuleExplanation,
+  ConditionExplanation,
   WrappedTool,
+  EnforcementMode,
+  ShadowDecision,
+  ShadowDecisionSink,
+  PolicyDivergence,
+  PolicyDivergenceSink,
+  PolicyOutcome,
+  CombiningAlgorithm,
+  PolicyScope,
+  PolicyWatchOptions,
+  PolicyReloadEvent,
+  PolicyReloadFailure,
+  PolicySigningAlgorithm,
+  PolicySigningKey,
+  PolicyVerificationKey,
+  PolicySignature,
+  BreakGlassGrant,
+  BreakGlassOverride,
+  BreakGlassConfig,
 
   // Policy types
   Policy,
   PolicyRule,
   PolicyCondition,
+  RuleTransform,
+  RateLimit,
+  RateLimitStatus,
+  Budget,
+  BudgetStatus,
+  CounterStore,
+  CounterClient,
+  FieldCondition,
+  ConditionGroup,
+  SequenceCondition,
+  TaintCondition,
+  TaintMatch,
+  TaintConfig,
+  ScheduleCondition,
+  WindowCondition,
+  Schedule,
+  DayOfWeek,
+  LocalTime,
+  CallStatus,
+  SessionCall,
+  SessionHistoryConfig,
+  ConditionOperator,
   PolicyEvaluationContext,
+  DecisionCacheStats,
+
+  // Audit types
+  AuditConfig,
+  AuditEntry,
+  AuditOutcome,
+  AuditLogIssue,
+  AuditVerificationResult,
 
   // HITL types
   ApprovalRequest,
   ApprovalResponse,
   HITLWorkflowResult,
+  ApprovalStore,
+  StoredApproval,
   WebhookConfig,
   WebhookSecurityConfig,
+  ApprovalWebhookPayload,
+  SignedApprovalResponse,
+  ApprovalRequestHandler,
+  Approver,
+  WebhookSigningAlgorithm,
+  WebhookSigningKey,
+  WebhookVerificationKey,
 
   // Utility types
   LogLevel,
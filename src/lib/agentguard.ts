@@ -1,3 +1,5 @@
+import { inspect } from 'util';
+
 import {
   AgentGuardError,
   PolicyViolationError,
@@ -7,6 +9,17 @@ import {
 import { PolicyLoader } from './policy-loader.js';
 import { HITLManager } from './hitl-manager.js';
 import { Logger } from './logger.js';
+import { DecisionCache, collectReferencedFields } from './decision-cache.js';
+import { CompiledPolicy, extractFieldValue } from './compiled-policy.js';
+import { COMBINING_ALGORITHMS, selectDecidingResult } from './policy-combining.js';
+import { PolicyWatcher } from './policy-watcher.js';
+import { SIGNATURE_EXTENSION } from './policy-signing.js';
+import { AuditLog } from './audit-log.js';
+import { InMemoryCounterStore } from './counter-store.js';
+import { SessionHistory } from './session-history.js';
+import { TaintTracker } from './taint-tracker.js';
+import { BreakGlass, grantCovers } from './break-glass.js';
+import { applyTransforms, PARAMETERS_FIELD, RESULT_FIELD } from './transforms.js';
 
 import type {
   AgentGuardConfig,
@@ -14,30 +27,95 @@ import type {
   Policy,
   ToolCall,
   GuardResult,
-  PolicyRule,
-  PolicyCondition,
+  ApprovalRequest,
   ApprovalResponse,
   HITLWorkflowResult,
   WrappedTool,
   PolicyEvaluationContext,
   WebhookConfig,
+  DecisionCacheStats,
+  PolicyDecision,
+  PolicyRule,
+  PolicyExplanation,
+  ShadowDecision,
+  PolicyDivergence,
+  PolicyOutcome,
+  RuleExplanation,
+  AuditOutcome,
+  RateLimitStatus,
+  BudgetStatus,
+  CallStatus,
+  SessionCall,
+  BreakGlassGrant,
+  PolicyWatchOptions,
 } from '../types.js';
 
+const NO_POLICY_IN_SCOPE = 'No policy applies to this tool call';
+// The candidate policy counts calls apart from the primary, whose names it often shares
+const CANDIDATE_COUNTER_PREFIX = 'candidate:';
+
+// Spend added to a budget counter while deciding a call, undone if the call does not run
+type BudgetReservation = {
+  readonly key: string;
+  readonly amount: number;
+  readonly window: number;
+  // When the window the spend was counted in ends, in ms
+  readonly windowEnd: number;
+};
+
 export class AgentGuard {
-  private policy: Policy | null = null;
+  // The loaded policies in the order their results are combined
+  private compiledPolicies: CompiledPolicy[] = [];
+  private compiledCandidatePolicy: CompiledPolicy | null = null;
+  // Each policy's result rules, compiled as a policy of their own that allows by default
+  private compiledResultPolicies: CompiledPolicy[] = [];
   private readonly policyLoader: PolicyLoader;
   private hitlManager: HITLManager;
   private readonly logger: Logger;
   private readonly config: ResolvedAgentGuardConfig;
+  private readonly decisionCache: DecisionCache;
+  private readonly auditLog: AuditLog | null;
+  private readonly sessionHistory: SessionHistory;
+  private readonly taintTracker: TaintTracker;
+  private readonly breakGlass: BreakGlass | null;
+  // Active break-glass grants by id
+  private readonly breakGlassGrants = new Map<string, BreakGlassGrant>();
+  private policyWatcher: PolicyWatcher | null = null;
+  // Fields referenced by the policy's conditions; null when decisions must not be cached
+  private cacheKeyFields: string[] | null = null;
+  // Whether any result rule references resultText, which is only serialized when one does
+  private resultTextReferenced = false;
 
   constructor(config: AgentGuardConfig) {
+    const clock = config.clock ?? (() => new Date());
     const baseConfig = {
       webhook: config.webhook,
       enableLogging: config.enableLogging ?? true,
       timeout: config.timeout ?? 30000,
+      mode: config.mode ?? 'enforce',
+      shadowSink: config.shadowSink,
+      candidatePolicy: config.candidatePolicy,
+      candidatePolicyPath: config.candidatePolicyPath,
+      divergenceSink: config.divergenceSink,
+      audit: config.audit,
+      approvalStore: config.approvalStore,
+      approver: config.approver,
+      counterStore: config.counterStore ?? new InMemoryCounterStore(clock),
+      history: {
+        maxCallsPerSession: config.history?.maxCallsPerSession ?? 100,
+        ttl: config.history?.ttl ?? 3600000,
+      },
+      taint: {
+        minLength: config.taint?.minLength ?? 12,
+      },
+      clock,
+      breakGlass: config.breakGlass,
+      combiningAlgorithm: config.combiningAlgorithm ?? 'deny-overrides',
+      policyVerificationKey: config.policyVerificationKey,
       cache: {
         enabled: config.cache?.enabled ?? true,
         ttl: config.cache?.ttl ?? 300000,
+        maxSize: config.cache?.maxSize ?? 1000,
       },
     };
 
@@ -46,34 +124,70 @@ export class AgentGuard {
         ? { ...baseConfig, policy: config.policy, policyPath: undefined }
         : { ...baseConfig, policyPath: config.policyPath, policy: undefined };
 
+    if (!COMBINING_ALGORITHMS.includes(this.config.combiningAlgorithm)) {
+      throw new AgentGuardError(
+        `Unknown combining algorithm "${this.config.combiningAlgorithm}". Must be one of: ${COMBINING_ALGORITHMS.join(', ')}`,
+        'INVALID_CONFIG',
+      );
+    }
+
     this.logger = new Logger({ enabled: this.config.enableLogging ?? true });
-    this.policyLoader = new PolicyLoader(this.logger);
-    this.hitlManager = new HITLManager(null, this.logger);
+    this.policyLoader = new PolicyLoader(this.logger, {
+      verificationKey: this.config.policyVerificationKey,
+    });
+    this.hitlManager = new HITLManager(
+      null,
+      this.logger,
+      this.config.approvalStore,
+      this.config.approver,
+    );
+    this.decisionCache = new DecisionCache(this.config.cache, this.config.clock);
+    this.auditLog = this.config.audit
+      ? new AuditLog(this.config.audit.path, this.logger, this.config.clock)
+      : null;
+    this.sessionHistory = new SessionHistory(this.config.history, this.config.clock);
+    this.taintTracker = new TaintTracker(
+      {
+        minLength: this.config.taint.minLength,
+        ttl: this.config.history.ttl,
+      },
+      this.config.clock,
+    );
+    this.breakGlass = this.config.breakGlass ? new BreakGlass(this.config.breakGlass.secret) : null;
   }
 
   /**
-   * Initialize AgentGuard by loading the policy
+   * Initialize AgentGuard by loading the policies
    */
   async initialize(): Promise<void> {
     try {
+      let policies: Policy[];
       if (this.config.policy) {
-        this.policy = this.config.policy;
+        policies = ([] as Policy[]).concat(this.config.policy);
         this.logger.info('Using provided policy configuration');
       } else if (this.config.policyPath) {
-        this.policy = await this.policyLoader.loadPolicy(this.config.policyPath);
-        this.logger.info(`Loaded policy from ${this.config.policyPath}`);
+        policies = await this.loadPolicyFiles();
       } else {
         throw new PolicyLoadError('No policy or policyPath provided', undefined);
       }
 
-      const webhookConfig = this.policy.webhook || this.config.webhook || null;
-      this.hitlManager = new HITLManager(webhookConfig, this.logger);
+      this.setPolicies(policies, await this.loadCandidatePolicy());
+
+      // The first policy that configures a webhook provides it
+      const webhookConfig =
+        policies.find(policy => policy.webhook)?.webhook || this.config.webhook || null;
+      this.hitlManager = new HITLManager(
+        webhookConfig,
+        this.logger,
+        this.config.approvalStore,
+        this.config.approver,
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
 
       throw new PolicyLoadError(
         `Failed to initialize AgentGuard: ${message}`,
-        this.config.policyPath,
+        this.getPolicyPaths().join(', ') || undefined,
       );
     }
   }
@@ -88,6 +202,9 @@ export class AgentGuard {
       agentId?: string;
       sessionId?: string;
       metadata?: Record<string, unknown>;
+      // Mark the tool's output as untrusted for the rest of the session, labelled with the
+      // given string or, when true, the tool name
+      taint?: boolean | string;
     },
   ): WrappedTool<T> {
     // Validate inputs
@@ -109,51 +226,38 @@ export class AgentGuard {
         ...(options?.metadata && { metadata: options.metadata }),
       };
 
-      // Evaluate the tool call against policy
-      const guardResult = await this.evaluateToolCall(toolCall);
-
-      // Handle the decision
-      switch (guardResult.decision) {
-        case 'ALLOW':
-          this.logger.info(`Tool call allowed: ${toolName}`, { toolCall, rule: guardResult.rule });
-          return await toolFunction(...args);
-
-        case 'BLOCK':
-          this.logger.warn(`Tool call blocked: ${toolName}`, { toolCall, rule: guardResult.rule });
-          throw new PolicyViolationError(
-            `Tool call blocked by policy: ${guardResult.reason}`,
-            guardResult.rule!,
-            toolCall,
-          );
-
-        case 'REQUIRE_HUMAN_APPROVAL':
-          this.logger.info(`Tool call requires approval: ${toolName}`, {
-            toolCall,
-            rule: guardResult.rule,
-          });
-          const approval = await this.requestHumanApproval(
-            toolCall,
-            guardResult.approvalRequestId!,
-          );
+      // Budget spend reserved while deciding is released unless the tool runs successfully
+      const reservations: BudgetReservation[] = [];
+      let spent = false;
+      const invoke = async (callArgs: Parameters<T>): Promise<Awaited<ReturnType<T>>> => {
+        let output: Awaited<ReturnType<T>>;
+        try {
+          output = await toolFunction(...callArgs);
+        } catch (error) {
+          this.recordCall(toolCall, 'failed');
+          throw error;
+        }
+        spent = true;
+        this.recordCall(toolCall, 'succeeded');
+        return output;
+      };
 
-          if (approval.approved) {
-            this.logger.info(`Tool call approved: ${toolName}`, { toolCall, approval });
-            return await toolFunction(...args);
-          } else {
-            this.logger.warn(`Tool call denied: ${toolName}`, { toolCall, approval });
-            throw new PolicyViolationError(
-              `Tool call denied by human reviewer: ${approval.reason || 'No reason provided'}`,
-              guardResult.rule!,
-              toolCall,
-            );
-          }
+      let output: Awaited<ReturnType<T>>;
+      try {
+        output = await this.enforce(toolCall, args, invoke, reservations);
+      } catch (error) {
+        if (!spent) {
+          await this.releaseBudget(reservations);
+        }
+        throw error;
+      }
 
-        default:
-          throw new AgentGuardError(
-            `Unknown policy decision: ${guardResult.decision}`,
-            'UNKNOWN_DECISION',
-          );
+      if (options?.taint && toolCall.sessionId) {
+        const label = options.taint === true ? toolName : options.taint;
+        this.taintTracker.add(toolCall.sessionId, output, label);
       }
+
+      return output;
     };
 
     // Add metadata to identify wrapped functions
@@ -175,203 +279,890 @@ export class AgentGuard {
   }
 
   /**
-   * Evaluate a tool call against the loaded policy
+   * Decide a protected tool call and act on the decision, invoking the tool if allowed
    */
-  private async evaluateToolCall(toolCall: ToolCall): Promise<GuardResult> {
-    if (!this.policy) {
-      throw new AgentGuardError(
-        'AgentGuard not initialized. Call initialize() first.',
-        'NOT_INITIALIZED',
-      );
+  private async enforce<A extends unknown[], R>(
+    toolCall: ToolCall,
+    args: A,
+    invoke: (callArgs: A) => Promise<R>,
+    reservations: BudgetReservation[],
+  ): Promise<R> {
+    // In shadow mode nothing is enforced, so no approval request is created either
+    if (this.config.mode === 'shadow') {
+      const shadowResult = await this.decide(toolCall, reservations);
+      await this.compareWithCandidate(toolCall, shadowResult, reservations);
+      await this.recordShadowRuleMatch(toolCall, shadowResult, 'ALLOW');
+      await this.recordShadowDecision({
+        scope: 'guard',
+        toolCall,
+        decision: shadowResult.decision,
+        ...(shadowResult.rule && { rule: shadowResult.rule }),
+        reason: shadowResult.reason,
+        enforcedDecision: 'ALLOW',
+        timestamp: this.config.clock().toISOString(),
+      });
+      await this.recordAudit(toolCall, shadowResult, 'ALLOWED');
+      return await this.guardResult(toolCall, await invoke(args));
+    }
+
+    // Evaluate the tool call against policy
+    const guardResult = await this.evaluateToolCall(toolCall, reservations);
+    await this.compareWithCandidate(toolCall, guardResult, reservations);
+    await this.recordShadowRuleMatch(toolCall, guardResult, guardResult.decision);
+
+    // Handle the decision
+    switch (guardResult.decision) {
+      case 'ALLOW':
+        if (guardResult.breakGlass) {
+          const { grant, blockedBy, blockedReason } = guardResult.breakGlass;
+          this.logger.warn(
+            `BREAK-GLASS override let blocked tool call through: ${toolCall.toolName}`,
+            {
+              toolCall,
+              grant,
+              blockedBy: blockedBy?.name,
+              blockedReason,
+            },
+          );
+          await this.recordAudit(toolCall, guardResult, 'OVERRIDDEN', grant.issuedBy);
+        } else {
+          this.logger.info(`Tool call allowed: ${toolCall.toolName}`, {
+            toolCall,
+            rule: guardResult.rule,
+          });
+          await this.recordAudit(toolCall, guardResult, 'ALLOWED');
+        }
+        return await this.guardResult(toolCall, await invoke(args));
+
+      case 'MODIFY':
+        this.logger.info(`Tool call modified: ${toolCall.toolName}`, {
+          toolCall,
+          rule: guardResult.rule,
+          modifiedParameters: guardResult.modifiedParameters,
+        });
+        await this.recordAudit(toolCall, guardResult, 'MODIFIED');
+        return await this.guardResult(
+          toolCall,
+          await invoke(this.buildArguments(args, guardResult.modifiedParameters!) as A),
+        );
+
+      case 'BLOCK':
+        this.logger.warn(`Tool call blocked: ${toolCall.toolName}`, {
+          toolCall,
+          rule: guardResult.rule,
+        });
+        await this.recordAudit(toolCall, guardResult, 'BLOCKED');
+        throw new PolicyViolationError(
+          `Tool call blocked by policy: ${guardResult.reason}`,
+          guardResult.rule!,
+          toolCall,
+        );
+
+      case 'REQUIRE_HUMAN_APPROVAL':
+        this.logger.info(`Tool call requires approval: ${toolCall.toolName}`, {
+          toolCall,
+          rule: guardResult.rule,
+        });
+        let approval: HITLWorkflowResult;
+        try {
+          approval = await this.requestHumanApproval(toolCall, guardResult.approvalRequestId!);
+        } catch (error) {
+          await this.recordAudit(toolCall, guardResult, 'APPROVAL_FAILED');
+          throw error;
+        }
+
+        if (approval.approved) {
+          this.logger.info(`Tool call approved: ${toolCall.toolName}`, { toolCall, approval });
+          await this.recordAudit(toolCall, guardResult, 'APPROVED', approval.approvedBy);
+          return await this.guardResult(toolCall, await invoke(args));
+        } else {
+          this.logger.warn(`Tool call denied: ${toolCall.toolName}`, { toolCall, approval });
+          await this.recordAudit(toolCall, guardResult, 'DENIED', approval.approvedBy);
+          throw new PolicyViolationError(
+            `Tool call denied by human reviewer: ${approval.reason || 'No reason provided'}`,
+            guardResult.rule!,
+            toolCall,
+          );
+        }
+
+      default:
+        throw new AgentGuardError(
+          `Unknown policy decision: ${guardResult.decision}`,
+          'UNKNOWN_DECISION',
+        );
+    }
+  }
+
+  /**
+   * Evaluate a tool call against the loaded policy without side effects.
+   * Unlike protected tools, no approval request is created for REQUIRE_HUMAN_APPROVAL decisions
+   * and the call is not counted against rate limits or budgets.
+   */
+  async evaluate(toolCall: ToolCall): Promise<GuardResult> {
+    return this.decide(toolCall, null);
+  }
+
+  /**
+   * Decide a tool call. When given a reservations list, the call is counted against the rate
+   * limits it matches and its spend is reserved against its budgets, recorded in the list.
+   */
+  private async decide(
+    toolCall: ToolCall,
+    reservations: BudgetReservation[] | null,
+  ): Promise<GuardResult> {
+    const compiledPolicies = this.requireCompiledPolicies();
+    const context = this.createEvaluationContext(toolCall, compiledPolicies[0]!.policy);
+
+    const cacheKey = this.getCacheKey(context);
+    if (cacheKey) {
+      const cached = this.decisionCache.get(cacheKey);
+      if (cached) {
+        this.logger.debug(`Decision cache hit: ${toolCall.toolName}`, {
+          decision: cached.decision,
+        });
+        return this.applyBreakGlass(this.applyTransforms(cached, toolCall), context);
+      }
+    }
+
+    const result = await this.evaluatePolicies(compiledPolicies, context, 'BLOCK', reservations);
+
+    if (cacheKey) {
+      this.decisionCache.set(cacheKey, result);
+    }
+
+    return this.applyBreakGlass(this.applyTransforms(result, toolCall), context);
+  }
+
+  /**
+   * Let a BLOCK decision through when an active break-glass grant covers the call. Like
+   * transforms, this runs after the cache lookup so grants take effect immediately.
+   */
+  private applyBreakGlass(result: GuardResult, context: PolicyEvaluationContext): GuardResult {
+    if (result.decision !== 'BLOCK') {
+      return result;
+    }
+
+    const grant = this.findBreakGlassGrant(context.toolCall, context.timestamp);
+    if (!grant) {
+      return result;
+    }
+
+    const { rule, reason, ...rest } = result;
+    return {
+      ...rest,
+      decision: 'ALLOW',
+      reason: `Break-glass override ${grant.id} by ${grant.issuedBy}: ${grant.reason}`,
+      breakGlass: { grant, ...(rule && { blockedBy: rule }), blockedReason: reason },
+    };
+  }
+
+  /**
+   * Find an unexpired grant covering a tool call, dropping expired grants along the way
+   */
+  private findBreakGlassGrant(toolCall: ToolCall, timestamp: string): BreakGlassGrant | undefined {
+    const now = Date.parse(timestamp);
+
+    for (const [id, grant] of this.breakGlassGrants) {
+      if (Date.parse(grant.expiresAt) <= now) {
+        this.breakGlassGrants.delete(id);
+      } else if (grantCovers(grant, toolCall)) {
+        return grant;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Rewrite the parameters of a MODIFY decision. This runs after the cache lookup, as
+   * cache keys only cover the fields the rules' conditions reference.
+   */
+  private applyTransforms(result: GuardResult, toolCall: ToolCall): GuardResult {
+    if (result.decision !== 'MODIFY') {
+      return result;
+    }
+
+    return {
+      ...result,
+      originalParameters: toolCall.parameters,
+      modifiedParameters: applyTransforms(
+        toolCall.parameters,
+        PARAMETERS_FIELD,
+        result.rule?.transforms ?? [],
+      ) as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Evaluate a tool's return value against the policy's result rules without side effects.
+   * Conditions can reference `result` (the value itself) and `resultText` (the value as a
+   * string, JSON-serialized unless it already is one). Without a matching rule the result
+   * is allowed.
+   */
+  async evaluateResult(toolCall: ToolCall, result: unknown): Promise<GuardResult> {
+    this.requireCompiledPolicies();
+    const compiledPolicies = this.compiledResultPolicies;
+    if (compiledPolicies.length === 0) {
+      return { decision: 'ALLOW', reason: 'No result rules configured' };
     }
 
     const context: PolicyEvaluationContext = {
-      toolCall,
-      policy: this.policy,
-      timestamp: new Date().toISOString(),
+      ...this.createEvaluationContext(toolCall, compiledPolicies[0]!.policy),
+      result,
+      ...(this.resultTextReferenced && { resultText: resultToText(result) }),
     };
+    const guardResult = await this.evaluatePolicies(compiledPolicies, context, 'ALLOW');
 
-    // Sort rules by priority (higher priority first)
-    const sortedRules = [...this.policy.rules].sort(
-      (a, b) => (b.priority || 0) - (a.priority || 0),
-    );
+    if (guardResult.decision !== 'MODIFY') {
+      return guardResult;
+    }
 
-    // Evaluate rules in priority order
-    for (const rule of sortedRules) {
-      if (await this.evaluateRule(rule, context)) {
-        this.logger.debug(`Rule matched: ${rule.name}`, { rule, toolCall });
+    return {
+      ...guardResult,
+      originalResult: result,
+      modifiedResult: applyTransforms(result, RESULT_FIELD, guardResult.rule?.transforms ?? []),
+    };
+  }
+
+  /**
+   * Apply the result rules to a tool's return value before handing it back to the caller
+   */
+  private async guardResult<R>(toolCall: ToolCall, output: R): Promise<R> {
+    if (this.compiledResultPolicies.length === 0) {
+      return output;
+    }
+
+    const result = await this.evaluateResult(toolCall, output);
+    // The output itself is kept out of the audit log, as it is what the rules protect
+    const { originalResult: _original, modifiedResult: _modified, ...auditResult } = result;
+
+    if (this.config.mode === 'shadow') {
+      await this.recordShadowRuleMatch(toolCall, result, 'ALLOW');
+      if (result.decision !== 'ALLOW') {
+        await this.recordShadowDecision({
+          scope: 'guard',
+          toolCall,
+          decision: result.decision,
+          ...(result.rule && { rule: result.rule }),
+          reason: result.reason,
+          enforcedDecision: 'ALLOW',
+          timestamp: this.config.clock().toISOString(),
+        });
+      }
+      return output;
+    }
+
+    await this.recordShadowRuleMatch(toolCall, result, result.decision);
+
+    switch (result.decision) {
+      case 'BLOCK':
+        this.logger.warn(`Tool result blocked: ${toolCall.toolName}`, {
+          toolCall,
+          rule: result.rule,
+        });
+        await this.recordAudit(toolCall, auditResult, 'RESULT_BLOCKED');
+        throw new PolicyViolationError(
+          `Tool result blocked by policy: ${result.reason}`,
+          result.rule!,
+          toolCall,
+        );
+
+      case 'MODIFY':
+        this.logger.info(`Tool result modified: ${toolCall.toolName}`, {
+          toolCall,
+          rule: result.rule,
+        });
+        await this.recordAudit(toolCall, auditResult, 'RESULT_MODIFIED');
+        return result.modifiedResult as R;
+
+      default:
+        return output;
+    }
+  }
 
-        if (rule.action === 'REQUIRE_HUMAN_APPROVAL') {
-          const approvalRequestId = await this.hitlManager.createApprovalRequest(toolCall);
-          return {
-            decision: rule.action,
+  /**
+   * Evaluate a call against each policy whose scope covers it and combine their results with
+   * the configured algorithm, deciding `outOfScopeDecision` when no policy covers it. Under
+   * first-applicable, evaluation stops at the first policy with a matching rule, so the rate
+   * limits and budgets of later policies do not count the call.
+   */
+  private async evaluatePolicies(
+    compiledPolicies: CompiledPolicy[],
+    context: PolicyEvaluationContext,
+    outOfScopeDecision: PolicyDecision,
+    reservations: BudgetReservation[] | null = null,
+  ): Promise<GuardResult> {
+    const { combiningAlgorithm } = this.config;
+    const inScope = compiledPolicies.filter(compiled => compiled.appliesTo(context.toolCall));
+    if (inScope.length === 0) {
+      this.logger.debug('No policy applies to the tool call', { toolCall: context.toolCall });
+      return { decision: outOfScopeDecision, reason: NO_POLICY_IN_SCOPE };
+    }
+
+    const results: { policy: Policy; result: GuardResult }[] = [];
+    for (const compiled of inScope) {
+      const result = await this.evaluateRules(
+        compiled,
+        { ...context, policy: compiled.policy },
+        reservations,
+      );
+      results.push({ policy: compiled.policy, result });
+
+      if (combiningAlgorithm === 'first-applicable' && result.rule) {
+        break;
+      }
+    }
+
+    const { policy, result } = selectDecidingResult(combiningAlgorithm, results);
+    if (inScope.length > 1) {
+      this.logger.debug(`Policy "${policy.name}" decided under ${combiningAlgorithm}`, {
+        decisions: results.map(entry => [entry.policy.name, entry.result.decision]),
+      });
+    }
+
+    return { ...result, policy: policy.name };
+  }
+
+  /**
+   * Find the highest-priority matching rule, falling back to the policy's default action.
+   * A rate-limited or budgeted rule only matches once its limit is exceeded; its counters are
+   * keyed under counterPrefix.
+   */
+  private async evaluateRules(
+    compiled: CompiledPolicy,
+    context: PolicyEvaluationContext,
+    reservations: BudgetReservation[] | null = null,
+    counterPrefix = '',
+  ): Promise<GuardResult> {
+    const { toolCall } = context;
+    const { policy } = compiled;
+
+    let shadow: GuardResult['shadow'];
+    let rateLimit: RateLimitStatus | undefined;
+    let budget: BudgetStatus | undefined;
+
+    // Evaluate candidate rules in priority order
+    for (const rule of compiled.getCandidateRules(toolCall.toolName)) {
+      if (await compiled.evaluateRule(rule, context)) {
+        if (rule.rateLimit) {
+          const status = await this.checkRateLimit(
+            policy,
             rule,
-            reason: `Matched rule: ${rule.name}`,
-            approvalRequestId,
-          };
+            toolCall,
+            reservations !== null,
+            counterPrefix,
+          );
+          if (status.exceeded || !rateLimit || status.remaining < rateLimit.remaining) {
+            rateLimit = status;
+          }
+          if (!status.exceeded) {
+            continue;
+          }
+        }
+
+        if (rule.budget) {
+          const status = await this.checkBudget(policy, rule, context, reservations, counterPrefix);
+          if (status.exceeded || !budget || status.remaining < budget.remaining) {
+            budget = status;
+          }
+          if (!status.exceeded) {
+            continue;
+          }
+        }
+
+        // Shadow rules never decide; remember the first one and keep looking
+        if (rule.mode === 'shadow') {
+          this.logger.debug(`Shadow rule matched: ${rule.name}`, { rule, toolCall });
+          shadow ??= { decision: rule.action, rule, reason: `Matched shadow rule: ${rule.name}` };
+          continue;
         }
 
+        this.logger.debug(`Rule matched: ${rule.name}`, { rule, toolCall });
+
         return {
           decision: rule.action,
           rule,
-          reason: `Matched rule: ${rule.name}`,
+          reason: describeMatch(rule),
+          ...(rateLimit && { rateLimit }),
+          ...(budget && { budget }),
+          ...(shadow && { shadow }),
         };
       }
     }
 
     // No rules matched, use default action
     this.logger.debug('No rules matched, using default action', {
-      defaultAction: this.policy.defaultAction,
+      defaultAction: policy.defaultAction,
       toolCall,
     });
 
-    if (this.policy.defaultAction === 'REQUIRE_HUMAN_APPROVAL') {
-      const approvalRequestId = await this.hitlManager.createApprovalRequest(toolCall);
+    return {
+      decision: policy.defaultAction,
+      reason: 'No matching rules found, using default action',
+      ...(rateLimit && { rateLimit }),
+      ...(budget && { budget }),
+      ...(shadow && { shadow }),
+    };
+  }
+
+  /**
+   * Count a call against a rule's rate limit, or only look at the count when not consuming
+   */
+  private async checkRateLimit(
+    policy: Policy,
+    rule: PolicyRule,
+    toolCall: ToolCall,
+    consume: boolean,
+    counterPrefix = '',
+  ): Promise<RateLimitStatus> {
+    const { limit, window, per } = rule.rateLimit!;
+    const { key, resetAt } = this.getCounterKey(policy, rule, toolCall, window, per, counterPrefix);
+
+    const count = consume
+      ? await this.config.counterStore.increment(key, 1, window)
+      : (await this.config.counterStore.get(key)) + 1;
+
+    return {
+      rule: rule.name,
+      limit,
+      remaining: Math.max(limit - count, 0),
+      resetAt,
+      exceeded: count > limit,
+    };
+  }
+
+  /**
+   * Add a call's amount to a rule's budget, recording the reservation so it can be released
+   * if the call does not run. Without a reservations list the total is only looked at.
+   */
+  private async checkBudget(
+    policy: Policy,
+    rule: PolicyRule,
+    context: PolicyEvaluationContext,
+    reservations: BudgetReservation[] | null,
+    counterPrefix = '',
+  ): Promise<BudgetStatus> {
+    const { field, limit, window, per } = rule.budget!;
+    const { key, resetAt } = this.getCounterKey(
+      policy,
+      rule,
+      context.toolCall,
+      window,
+      per,
+      counterPrefix,
+    );
+    const amount = extractFieldValue(field, context);
+
+    // A call whose amount cannot be added up cannot be shown to be within the budget
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      const spent = await this.config.counterStore.get(key);
       return {
-        decision: this.policy.defaultAction,
-        reason: 'No matching rules found, using default action',
-        approvalRequestId,
+        rule: rule.name,
+        limit,
+        spent,
+        remaining: Math.max(limit - spent, 0),
+        resetAt,
+        exceeded: true,
       };
     }
 
+    let spent: number;
+    if (reservations) {
+      spent = await this.config.counterStore.increment(key, amount, window);
+      reservations.push({ key, amount, window, windowEnd: Date.parse(resetAt) });
+    } else {
+      spent = (await this.config.counterStore.get(key)) + amount;
+    }
+
     return {
-      decision: this.policy.defaultAction,
-      reason: 'No matching rules found, using default action',
+      rule: rule.name,
+      limit,
+      spent,
+      remaining: Math.max(limit - spent, 0),
+      resetAt,
+      exceeded: spent > limit,
     };
   }
 
   /**
-   * Evaluate if a rule matches the current context
+   * Undo the budget spend reserved for a call that did not run.
+   * Failures are logged; the spend then stays counted until its window ends.
    */
-  private async evaluateRule(rule: PolicyRule, context: PolicyEvaluationContext): Promise<boolean> {
-    // All conditions must be true for the rule to match
-    for (const condition of rule.conditions) {
-      if (!(await this.evaluateCondition(condition, context))) {
-        return false;
+  private async releaseBudget(reservations: BudgetReservation[]): Promise<void> {
+    const now = this.config.clock().getTime();
+    for (const { key, amount, window, windowEnd } of reservations) {
+      // The spend went with its window, and releasing it would only recreate the counter
+      if (now >= windowEnd) {
+        continue;
+      }
+      try {
+        await this.config.counterStore.increment(key, -amount, window);
+      } catch (error) {
+        this.logger.error('Failed to release budget reservation', error);
       }
     }
-    return true;
   }
 
   /**
-   * Evaluate a single condition
+   * Counters are kept per fixed window, keyed by policy, rule and the counted session or agent
    */
-  private async evaluateCondition(
-    condition: PolicyCondition,
-    context: PolicyEvaluationContext,
-  ): Promise<boolean> {
-    const value = this.extractFieldValue(condition.field, context);
-
-    switch (condition.operator) {
-      case 'equals':
-        return value === condition.value;
-
-      case 'contains':
-        return typeof value === 'string' && typeof condition.value === 'string'
-          ? value.includes(condition.value)
-          : false;
-
-      case 'startsWith':
-        return typeof value === 'string' && typeof condition.value === 'string'
-          ? value.startsWith(condition.value)
-          : false;
-
-      case 'endsWith':
-        return typeof value === 'string' && typeof condition.value === 'string'
-          ? value.endsWith(condition.value)
-          : false;
-
-      case 'regex':
-        if (typeof value === 'string' && typeof condition.value === 'string') {
-          const regex = new RegExp(condition.value);
-          return regex.test(value);
-        }
-        return false;
+  private getCounterKey(
+    policy: Policy,
+    rule: PolicyRule,
+    toolCall: ToolCall,
+    window: number,
+    per: 'session' | 'agent' | 'global',
+    prefix = '',
+  ): { key: string; resetAt: string } {
+    const now = this.config.clock().getTime();
+    const windowStart = now - (now % window);
 
-      case 'in':
-        return Array.isArray(condition.value) ? condition.value.includes(value) : false;
+    // Calls without the id they are counted by share one counter
+    const subject =
+      per === 'global'
+        ? 'global'
+        : `${per}:${(per === 'session' ? toolCall.sessionId : toolCall.agentId) ?? 'unknown'}`;
 
-      case 'gt':
-      case 'lt':
-      case 'gte':
-      case 'lte':
-        return this.evaluateNumericCondition(condition.operator, value, condition.value);
+    return {
+      key: `${prefix}${policy.name}:${rule.name}:${subject}:${windowStart}`,
+      resetAt: new Date(windowStart + window).toISOString(),
+    };
+  }
 
-      default:
-        this.logger.warn(`Unknown condition operator: ${condition.operator}`);
-        return false;
+  /**
+   * Evaluate a tool call against the candidate policy and report any decision that differs
+   * from the primary policy's. Candidate failures are logged and never affect the tool call.
+   * The call counts against the candidate's own rate limits and budgets, and its budget
+   * spend joins the reservations released if the call does not run.
+   */
+  private async compareWithCandidate(
+    toolCall: ToolCall,
+    primaryResult: GuardResult,
+    reservations: BudgetReservation[],
+  ): Promise<void> {
+    const candidate = this.compiledCandidatePolicy;
+    const primary = this.compiledPolicies[0];
+    if (!candidate || !primary) {
+      return;
+    }
+
+    try {
+      const candidateResult = await this.evaluateRules(
+        candidate,
+        this.createEvaluationContext(toolCall, candidate.policy),
+        reservations,
+        CANDIDATE_COUNTER_PREFIX,
+      );
+
+      if (candidateResult.decision === primaryResult.decision) {
+        return;
+      }
+
+      const divergence: PolicyDivergence = {
+        toolCall,
+        primary: this.toPolicyOutcome(primaryResult.policy ?? primary.policy.name, primaryResult),
+        candidate: this.toPolicyOutcome(candidate.policy.name, candidateResult),
+        timestamp: this.config.clock().toISOString(),
+      };
+
+      this.logger.warn(
+        `Policy divergence for ${toolCall.toolName}: primary ${primaryResult.decision}, candidate ${candidateResult.decision}`,
+        {
+          toolCall,
+          primaryRule: primaryResult.rule?.name,
+          candidateRule: candidateResult.rule?.name,
+        },
+      );
+
+      await this.config.divergenceSink?.(divergence);
+    } catch (error) {
+      this.logger.error('Candidate policy comparison failed', error);
+    }
+  }
+
+  private toPolicyOutcome(policyName: string, result: GuardResult): PolicyOutcome {
+    return {
+      policyName,
+      decision: result.decision,
+      ...(result.rule && { rule: result.rule }),
+      reason: result.reason,
+    };
+  }
+
+  /**
+   * Record the shadow rule match carried by a guard result, if any
+   */
+  private async recordShadowRuleMatch(
+    toolCall: ToolCall,
+    result: GuardResult,
+    enforcedDecision: PolicyDecision,
+  ): Promise<void> {
+    if (!result.shadow) {
+      return;
     }
+
+    await this.recordShadowDecision({
+      scope: 'rule',
+      toolCall,
+      decision: result.shadow.decision,
+      rule: result.shadow.rule,
+      reason: result.shadow.reason,
+      enforcedDecision,
+      timestamp: this.config.clock().toISOString(),
+    });
   }
 
   /**
-   * Evaluate numeric conditions
+   * Emit a shadow decision to the logger and the configured sink.
+   * Sink failures are logged and never affect the tool call.
    */
-  private evaluateNumericCondition(
-    operator: string,
-    value: unknown,
-    conditionValue: unknown,
-  ): boolean {
-    const numValue = typeof value === 'number' ? value : parseFloat(String(value));
-    const numConditionValue =
-      typeof conditionValue === 'number' ? conditionValue : parseFloat(String(conditionValue));
+  private async recordShadowDecision(shadowDecision: ShadowDecision): Promise<void> {
+    this.logger.info(
+      `Shadow decision for ${shadowDecision.toolCall.toolName}: ${shadowDecision.decision} (enforced: ${shadowDecision.enforcedDecision})`,
+      {
+        scope: shadowDecision.scope,
+        toolCall: shadowDecision.toolCall,
+        rule: shadowDecision.rule?.name,
+        reason: shadowDecision.reason,
+      },
+    );
 
-    if (isNaN(numValue) || isNaN(numConditionValue)) {
-      return false;
+    if (!this.config.shadowSink) {
+      return;
     }
 
-    switch (operator) {
-      case 'gt':
-        return numValue > numConditionValue;
-      case 'lt':
-        return numValue < numConditionValue;
-      case 'gte':
-        return numValue >= numConditionValue;
-      case 'lte':
-        return numValue <= numConditionValue;
-      default:
-        return false;
+    try {
+      await this.config.shadowSink(shadowDecision);
+    } catch (error) {
+      this.logger.error('Shadow decision sink failed', error);
     }
   }
 
   /**
-   * Extract field value from context using dot notation
+   * Append a guarded tool call to the audit log, if configured.
+   * Write failures are logged and never affect the tool call.
    */
-  private extractFieldValue(field: string, context: PolicyEvaluationContext): unknown {
-    if (!field || typeof field !== 'string') {
-      return undefined;
+  private async recordAudit(
+    toolCall: ToolCall,
+    result: GuardResult,
+    outcome: AuditOutcome,
+    approvedBy?: string,
+  ): Promise<void> {
+    if (!this.auditLog) {
+      return;
+    }
+
+    try {
+      await this.auditLog.record({
+        mode: this.config.mode,
+        toolCall,
+        result,
+        ...(result.rule && { rule: result.rule.name }),
+        ...(result.approvalRequestId && { approvalRequestId: result.approvalRequestId }),
+        ...(approvedBy && { approvedBy }),
+        outcome,
+      });
+    } catch (error) {
+      this.logger.error('Failed to write audit entry', error);
     }
+  }
 
-    const parts = field.split('.');
-    let value: any = context;
+  /**
+   * Explain how the loaded policies decide a tool call: every rule considered, each
+   * condition's resolved field value and outcome, and why the winning rule won
+   */
+  async explain(toolCall: ToolCall): Promise<PolicyExplanation> {
+    const compiledPolicies = this.requireCompiledPolicies();
+    const context = this.createEvaluationContext(toolCall, compiledPolicies[0]!.policy);
 
-    for (const part of parts) {
-      if (value === null || value === undefined) {
-        return undefined;
+    const inScope = compiledPolicies.filter(compiled => compiled.appliesTo(toolCall));
+    if (inScope.length === 0) {
+      return {
+        toolCall,
+        ...this.applyBreakGlass({ decision: 'BLOCK', reason: NO_POLICY_IN_SCOPE }, context),
+        rules: [],
+        priorityReason: 'No policy scope covers the tool call; BLOCK applied',
+        timestamp: context.timestamp,
+      };
+    }
+
+    const explained: {
+      policy: Policy;
+      rules: RuleExplanation[];
+      result: GuardResult;
+      priorityReason: string;
+    }[] = [];
+    for (const compiled of inScope) {
+      const { policy } = compiled;
+      const policyContext = { ...context, policy };
+      const rules: RuleExplanation[] = [];
+      for (const rule of compiled.rules) {
+        const explanation = { ...compiled.explainRule(rule, policyContext), policy: policy.name };
+        rules.push(await this.explainLimits(explanation, policyContext));
       }
 
-      // Handle array indexing (e.g., "items[0]" or "items.0")
-      const arrayMatch = part.match(/^(.+)\[(\d+)\]$/);
-      if (arrayMatch) {
-        const [, arrayName, indexStr] = arrayMatch;
-        if (arrayName && indexStr && value && typeof value === 'object' && arrayName in value) {
-          const arrayValue = value[arrayName];
-          const index = parseInt(indexStr, 10);
-          if (Array.isArray(arrayValue) && index >= 0 && index < arrayValue.length) {
-            value = arrayValue[index];
-          } else {
-            return undefined;
+      // Shadow rules are reported in the trace but never win, and rate-limited or budgeted
+      // rules only once their limit is exceeded, as in evaluation
+      const matchedRules = rules.filter(
+        rule =>
+          rule.matched &&
+          rule.rule.mode !== 'shadow' &&
+          (rule.rateLimit?.exceeded ?? true) &&
+          (rule.budget?.exceeded ?? true),
+      );
+      const [winner, ...otherMatches] = matchedRules;
+
+      const result: GuardResult = winner
+        ? {
+            decision: winner.rule.action,
+            rule: winner.rule,
+            reason: describeMatch(winner.rule),
+            ...(winner.rateLimit && { rateLimit: winner.rateLimit }),
+            ...(winner.budget && { budget: winner.budget }),
           }
-        } else {
-          return undefined;
-        }
-      } else if (value && typeof value === 'object' && part in value) {
-        value = value[part];
-      } else {
-        return undefined;
-      }
+        : {
+            decision: policy.defaultAction,
+            reason: 'No matching rules found, using default action',
+          };
+      const priorityReason = winner
+        ? this.describePriorityWin(winner, otherMatches)
+        : `No rules matched; default action ${policy.defaultAction} applied`;
+
+      explained.push({ policy, rules, result, priorityReason });
+    }
+
+    const { policy, result, priorityReason } = selectDecidingResult(
+      this.config.combiningAlgorithm,
+      explained,
+    );
+
+    // Active break-glass grants let blocked calls through, as in evaluation
+    return {
+      toolCall,
+      ...this.applyBreakGlass(result, context),
+      policy: policy.name,
+      rules: explained.flatMap(entry => entry.rules),
+      priorityReason:
+        explained.length > 1
+          ? `${priorityReason}; policy "${policy.name}" decided under ${this.config.combiningAlgorithm}`
+          : priorityReason,
+      timestamp: context.timestamp,
+    };
+  }
+
+  /**
+   * Evaluate a tool call for enforcement, creating an approval request when required
+   */
+  private async evaluateToolCall(
+    toolCall: ToolCall,
+    reservations: BudgetReservation[],
+  ): Promise<GuardResult> {
+    const result = await this.decide(toolCall, reservations);
+
+    if (result.decision !== 'REQUIRE_HUMAN_APPROVAL') {
+      return result;
     }
 
-    return value;
+    // Tell approvers why the call needs approval
+    const approvalRequestId = await this.hitlManager.createApprovalRequest(toolCall, {
+      reason: result.reason,
+      ...(result.rule && { rule: result.rule.name }),
+      ...(result.policy !== undefined && { policy: result.policy }),
+    });
+    return { ...result, approvalRequestId };
+  }
+
+  /**
+   * Key the decision cache on the values of the fields the policy references
+   */
+  private getCacheKey(context: PolicyEvaluationContext): string | null {
+    if (!this.cacheKeyFields) {
+      return null;
+    }
+
+    return DecisionCache.createKey(
+      this.cacheKeyFields.map(field => [field, extractFieldValue(field, context)]),
+    );
+  }
+
+  private requireCompiledPolicies(): CompiledPolicy[] {
+    if (this.compiledPolicies.length === 0) {
+      throw new AgentGuardError(
+        'AgentGuard not initialized. Call initialize() first.',
+        'NOT_INITIALIZED',
+      );
+    }
+
+    return this.compiledPolicies;
+  }
+
+  private createEvaluationContext(toolCall: ToolCall, policy: Policy): PolicyEvaluationContext {
+    return {
+      toolCall,
+      policy,
+      timestamp: this.config.clock().toISOString(),
+      history: toolCall.sessionId ? this.sessionHistory.get(toolCall.sessionId) : [],
+      taintedFields: toolCall.sessionId
+        ? this.taintTracker.find(toolCall.sessionId, toolCall.parameters, PARAMETERS_FIELD)
+        : [],
+    };
+  }
+
+  /**
+   * Add a call that ran to its session's history. Calls without a session are not tracked.
+   */
+  private recordCall(toolCall: ToolCall, status: CallStatus): void {
+    if (!toolCall.sessionId) {
+      return;
+    }
+
+    this.sessionHistory.record(toolCall.sessionId, {
+      toolName: toolCall.toolName,
+      status,
+      timestamp: this.config.clock().toISOString(),
+    });
+  }
+
+  /**
+   * Add the counter status of a matching rate-limited or budgeted rule to its explanation,
+   * without counting the call
+   */
+  private async explainLimits(
+    explanation: RuleExplanation,
+    context: PolicyEvaluationContext,
+  ): Promise<RuleExplanation> {
+    const { rule } = explanation;
+    if (!explanation.matched || (!rule.rateLimit && !rule.budget)) {
+      return explanation;
+    }
+
+    return {
+      ...explanation,
+      ...(rule.rateLimit && {
+        rateLimit: await this.checkRateLimit(context.policy, rule, context.toolCall, false),
+      }),
+      ...(rule.budget && { budget: await this.checkBudget(context.policy, rule, context, null) }),
+    };
+  }
+
+  /**
+   * Describe why the winning rule took precedence over the other matching rules
+   */
+  private describePriorityWin(winner: RuleExplanation, otherMatches: RuleExplanation[]): string {
+    const winnerLabel = `Rule "${winner.rule.name}" (priority ${winner.priority})`;
+
+    if (otherMatches.length === 0) {
+      return `${winnerLabel} was the only matching rule`;
+    }
+
+    const others = otherMatches
+      .map(match => `"${match.rule.name}" (priority ${match.priority})`)
+      .join(', ');
+    const tied = otherMatches.some(match => match.priority === winner.priority);
+
+    return tied
+      ? `${winnerLabel} won over ${others}; ties on priority are broken by declaration order`
+      : `${winnerLabel} had the highest priority among matching rules; also matched: ${others}`;
   }
 
   /**
@@ -396,6 +1187,21 @@ export class AgentGuard {
     return params;
   }
 
+  /**
+   * Rebuild function arguments from modified parameters, reversing extractParameters
+   */
+  private buildArguments(args: unknown[], parameters: Record<string, unknown>): unknown[] {
+    if (args.length === 0) {
+      return Object.keys(parameters).length > 0 ? [parameters] : [];
+    }
+
+    if (args.length === 1 && typeof args[0] === 'object' && args[0] !== null) {
+      return [parameters];
+    }
+
+    return args.map((_, index) => parameters[`arg${index}`]);
+  }
+
   /**
    * Request human approval for a tool call
    */
@@ -417,24 +1223,68 @@ export class AgentGuard {
   }
 
   /**
-   * Handle approval response from external system
+   * Handle approval response from external system. Pass the body exactly as received as
+   * `rawBody` so that its signature is checked against the bytes that were signed.
    */
   async handleApprovalResponse(
     response: ApprovalResponse,
     headers: Record<string, string>,
+    rawBody?: string,
   ): Promise<void> {
-    await this.hitlManager.handleApprovalResponse(response, headers);
+    await this.hitlManager.handleApprovalResponse(response, headers, rawBody);
+  }
+
+  /**
+   * Get the approval requests held by the approval store, including those created before a
+   * restart that nobody is waiting on yet
+   */
+  async getStoredApprovals(): Promise<ApprovalRequest[]> {
+    return this.hitlManager.getStoredApprovals();
+  }
+
+  /**
+   * Wait for the response to an approval request, such as one returned by
+   * getStoredApprovals() after a restart. Resolves immediately if the response has already
+   * arrived.
+   */
+  async waitForApproval(
+    requestId: string,
+    timeout: number = this.config.timeout,
+  ): Promise<HITLWorkflowResult> {
+    return this.hitlManager.waitForApproval(requestId, timeout);
   }
 
   /**
-   * Get current policy
+   * Remove expired approval requests, both pending in this process and left in the approval
+   * store, resolving to the number removed
+   */
+  async cleanupExpiredApprovals(): Promise<number> {
+    return this.hitlManager.pruneExpiredRequests();
+  }
+
+  /**
+   * Get current policy, or the first one when several are loaded
    */
   getPolicy(): Policy | null {
-    return this.policy;
+    return this.compiledPolicies[0]?.policy ?? null;
   }
 
   /**
-   * Reload policy from file
+   * Get every loaded policy, in the order their results are combined
+   */
+  getPolicies(): Policy[] {
+    return this.compiledPolicies.map(compiled => compiled.policy);
+  }
+
+  /**
+   * Get the candidate policy evaluated alongside the primary one, if configured
+   */
+  getCandidatePolicy(): Policy | null {
+    return this.compiledCandidatePolicy?.policy ?? null;
+  }
+
+  /**
+   * Reload policies from file
    */
   async reloadPolicy(): Promise<void> {
     if (this.config.policy) {
@@ -446,7 +1296,235 @@ export class AgentGuard {
       throw new PolicyLoadError('No policy path available for reload', undefined);
     }
 
-    this.policy = await this.policyLoader.loadPolicy(this.config.policyPath);
-    this.logger.info(`Policy reloaded from ${this.config.policyPath}`);
+    // Everything is loaded before anything is swapped in, so a failure keeps the current
+    // policies and candidate together
+    const policies = await this.loadPolicyFiles();
+    const candidate = this.config.candidatePolicyPath
+      ? await this.loadCandidatePolicy()
+      : this.compiledCandidatePolicy;
+    this.setPolicies(policies, candidate);
+    this.logger.info(`Policy reloaded from ${this.getPolicyPaths().join(', ')}`);
+  }
+
+  /**
+   * Watch the policy files, and the files they extend and include, and reload them once
+   * changes settle. A reload only swaps in policies that load and validate; otherwise the
+   * last good policies stay in place. Listen for "reload" and "reloadFailed" on the returned
+   * watcher, and close it to stop watching.
+   */
+  watchPolicy(options: PolicyWatchOptions = {}): PolicyWatcher {
+    if (this.config.policy) {
+      throw new AgentGuardError(
+        'Cannot watch policy files when using provided policy configuration',
+        'WATCH_UNAVAILABLE',
+      );
+    }
+    this.requireCompiledPolicies();
+
+    if (this.policyWatcher && !this.policyWatcher.isClosed()) {
+      return this.policyWatcher;
+    }
+
+    this.policyWatcher = new PolicyWatcher(
+      async () => {
+        await this.reloadPolicy();
+        return { policies: this.getPolicies(), files: this.getPolicySourceFiles() };
+      },
+      this.getPolicySourceFiles(),
+      options.debounce ?? 250,
+      this.logger,
+    );
+    this.logger.info('Watching policy files for changes', {
+      files: this.policyWatcher.getFiles(),
+    });
+
+    return this.policyWatcher;
+  }
+
+  /**
+   * Get every file the policies and candidate policy were loaded from, along with their
+   * signatures when signatures are verified
+   */
+  private getPolicySourceFiles(): string[] {
+    const paths = [...this.getPolicyPaths()];
+    if (this.config.candidatePolicyPath) {
+      paths.push(this.config.candidatePolicyPath);
+    }
+    const files = [...new Set(paths.flatMap(path => this.policyLoader.getSourceFiles(path)))];
+    return this.config.policyVerificationKey
+      ? files.flatMap(file => [file, `${file}${SIGNATURE_EXTENSION}`])
+      : files;
+  }
+
+  /**
+   * Load every configured policy file, in order
+   */
+  private async loadPolicyFiles(): Promise<Policy[]> {
+    const policies: Policy[] = [];
+    for (const policyPath of this.getPolicyPaths()) {
+      policies.push(await this.policyLoader.loadPolicy(policyPath));
+      this.logger.info(`Loaded policy from ${policyPath}`);
+    }
+    return policies;
+  }
+
+  private getPolicyPaths(): string[] {
+    return this.config.policyPath === undefined
+      ? []
+      : ([] as string[]).concat(this.config.policyPath);
+  }
+
+  /**
+   * Load and compile the candidate policy, if one is configured
+   */
+  private async loadCandidatePolicy(): Promise<CompiledPolicy | null> {
+    if (this.config.candidatePolicy) {
+      this.logger.info('Using provided candidate policy configuration');
+      return new CompiledPolicy(this.config.candidatePolicy, this.logger);
+    }
+    if (this.config.candidatePolicyPath) {
+      const candidate = await this.policyLoader.loadPolicy(this.config.candidatePolicyPath);
+      this.logger.info(`Loaded candidate policy from ${this.config.candidatePolicyPath}`);
+      return new CompiledPolicy(candidate, this.logger);
+    }
+    return null;
+  }
+
+  /**
+   * Get the calls retained for a session, oldest first
+   */
+  getSessionHistory(sessionId: string): readonly SessionCall[] {
+    return this.sessionHistory.get(sessionId);
+  }
+
+  /**
+   * Forget the call history and tainted outputs of one session, or of every session
+   */
+  clearSessionHistory(sessionId?: string): void {
+    this.sessionHistory.clear(sessionId);
+    this.taintTracker.clear(sessionId);
+  }
+
+  /**
+   * Verify a break-glass token and honor its grant over BLOCK decisions until it expires.
+   * Throws if break-glass is not configured or the token is invalid or expired.
+   */
+  activateBreakGlass(token: string): BreakGlassGrant {
+    if (!this.breakGlass) {
+      throw new AgentGuardError('Break-glass overrides are not configured', 'BREAK_GLASS_DISABLED');
+    }
+
+    const grant = this.breakGlass.verify(token, this.config.clock());
+    this.breakGlassGrants.set(grant.id, grant);
+    this.logger.warn(`BREAK-GLASS override activated by ${grant.issuedBy}: ${grant.reason}`, {
+      grant,
+    });
+
+    return grant;
+  }
+
+  /**
+   * Stop honoring a break-glass grant before it expires
+   */
+  revokeBreakGlass(grantId: string): boolean {
+    const revoked = this.breakGlassGrants.delete(grantId);
+    if (revoked) {
+      this.logger.warn(`BREAK-GLASS override revoked: ${grantId}`);
+    }
+    return revoked;
+  }
+
+  /**
+   * Get the break-glass grants that are active
+   */
+  getBreakGlassGrants(): BreakGlassGrant[] {
+    const now = this.config.clock().getTime();
+    return [...this.breakGlassGrants.values()].filter(grant => Date.parse(grant.expiresAt) > now);
+  }
+
+  /**
+   * Get decision cache hit/miss statistics
+   */
+  getCacheStats(): DecisionCacheStats {
+    return this.decisionCache.getStats();
+  }
+
+  /**
+   * Drop all cached decisions
+   */
+  clearCache(): void {
+    this.decisionCache.clear();
+  }
+
+  /**
+   * Compile and swap in the policies along with the candidate policy, resetting state derived
+   * from the previous ones. Compilation errors leave the current policies in place.
+   */
+  private setPolicies(policies: Policy[], candidate: CompiledPolicy | null): void {
+    if (policies.length === 0) {
+      throw new PolicyLoadError('At least one policy is required', undefined);
+    }
+
+    const compiledPolicies = policies.map(policy => new CompiledPolicy(policy, this.logger));
+    const compiledResultPolicies = policies
+      .filter(policy => policy.resultRules?.length)
+      .map(
+        policy =>
+          new CompiledPolicy(
+            { ...policy, defaultAction: 'ALLOW', rules: policy.resultRules! },
+            this.logger,
+          ),
+      );
+
+    this.compiledPolicies = compiledPolicies;
+    this.compiledResultPolicies = compiledResultPolicies;
+    this.compiledCandidatePolicy = candidate;
+    this.resultTextReferenced = compiledResultPolicies.some(compiled =>
+      collectReferencedFields(compiled.policy).some(field => field.split('.')[0] === 'resultText'),
+    );
+    this.decisionCache.clear();
+    for (const compiled of compiledPolicies) {
+      this.logger.debug(`Policy compiled: ${compiled.policy.name}`, {
+        rulesCount: compiled.rules.length,
+        indexedRulesCount: compiled.getIndexedRuleCount(),
+      });
+    }
+
+    const fields = [...new Set(policies.flatMap(policy => collectReferencedFields(policy)))];
+    // Rules over the evaluation timestamp depend on when they run, and rate-limited,
+    // budgeted, sequence or taint rules on earlier calls, not just on the tool call
+    const timeDependent = fields.some(field => field.split('.')[0] === 'timestamp');
+    const stateful =
+      fields.includes('history') ||
+      fields.includes('taint') ||
+      policies.some(policy => policy.rules.some(rule => rule.rateLimit || rule.budget));
+    this.cacheKeyFields = this.config.cache.enabled && !timeDependent && !stateful ? fields : null;
   }
 }
+
+/**
+ * Serialize a tool's return value for resultText, falling back to inspect for values JSON
+ * cannot represent, such as circular responses
+ */
+function resultToText(result: unknown): string {
+  if (typeof result === 'string') {
+    return result;
+  }
+
+  try {
+    return JSON.stringify(result) ?? '';
+  } catch {
+    return inspect(result, { depth: null, breakLength: Infinity });
+  }
+}
+
+/**
+ * Why a rule decided a call; a rate-limited or budgeted rule only decides once exceeded
+ */
+function describeMatch(rule: PolicyRule): string {
+  return rule.rateLimit
+    ? `Matched rule: ${rule.name} (rate limit of ${rule.rateLimit.limit} exceeded)`
+    : rule.budget
+      ? `Matched rule: ${rule.name} (budget of ${rule.budget.limit} exceeded)`
+      : `Matched rule: ${rule.name}`;
+}
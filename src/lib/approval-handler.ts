@@ -0,0 +1,129 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+import type { ApprovalRequestHandler, ApprovalResponse } from '../types.js';
+import { AgentGuardError } from './errors.js';
+import { normalizeHeaders } from './webhook-security.js';
+
+// Status codes for the errors handling an approval response can raise
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_RESPONSE_SIGNATURE: 401,
+  REQUEST_ID_MISMATCH: 401,
+  RESPONSE_BODY_MISMATCH: 400,
+  UNKNOWN_REQUEST_ID: 404,
+  DUPLICATE_NONCE: 409,
+};
+
+/**
+ * Create an http handler that receives approval responses and passes them to
+ * `handleApprovalResponse`, answering 200 when accepted, 400 for malformed bodies, 401 for
+ * invalid signatures, 404 for unknown or already settled requests and 409 for replays.
+ * Signatures are checked against the raw body. A body already read by a body parser
+ * (`req.body`) is used as is when it is a string or Buffer; an already parsed object can
+ * only be checked in its `JSON.stringify` form, so mount a raw or text parser instead
+ * when senders may sign other formatting.
+ */
+export function createApprovalHandler(
+  target: {
+    handleApprovalResponse(
+      response: ApprovalResponse,
+      headers: Record<string, string>,
+      rawBody?: string,
+    ): Promise<void>;
+  },
+  options: { maxBodySize?: number } = {},
+): ApprovalRequestHandler {
+  const maxBodySize = options.maxBodySize ?? 64 * 1024;
+
+  return async (req, res, next) => {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    let body: unknown;
+    let response: ApprovalResponse;
+    try {
+      body = await readBody(req, maxBodySize);
+      response = parseApprovalResponse(body);
+    } catch (error) {
+      const status =
+        error instanceof AgentGuardError && error.code === 'BODY_TOO_LARGE' ? 413 : 400;
+      sendJson(res, status, { error: errorMessage(error) });
+      return;
+    }
+
+    try {
+      await target.handleApprovalResponse(
+        response,
+        normalizeHeaders(req.headers),
+        typeof body === 'string' ? body : undefined,
+      );
+    } catch (error) {
+      const status = error instanceof AgentGuardError ? ERROR_STATUS[error.code] : undefined;
+      if (status === undefined && next) {
+        next(error);
+        return;
+      }
+      sendJson(res, status ?? 500, {
+        error: status === undefined ? 'Failed to handle approval response' : errorMessage(error),
+        ...(error instanceof AgentGuardError && { code: error.code }),
+      });
+      return;
+    }
+
+    sendJson(res, 200, { success: true });
+  };
+}
+
+/**
+ * Get the request body, reading it from the stream unless a body parser already has
+ */
+async function readBody(req: IncomingMessage & { body?: unknown }, maxBodySize: number) {
+  if (req.body !== undefined) {
+    return Buffer.isBuffer(req.body) ? req.body.toString('utf-8') : req.body;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBodySize) {
+      throw new AgentGuardError(
+        `Approval response body exceeds ${maxBodySize} bytes`,
+        'BODY_TOO_LARGE',
+      );
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function parseApprovalResponse(body: unknown): ApprovalResponse {
+  let response: any = body;
+  if (typeof body === 'string') {
+    try {
+      response = JSON.parse(body);
+    } catch {
+      throw new Error('Approval response body is not valid JSON');
+    }
+  }
+
+  if (
+    typeof response?.requestId !== 'string' ||
+    (response.decision !== 'APPROVE' && response.decision !== 'DENY')
+  ) {
+    throw new Error('Approval response must have a requestId and an APPROVE or DENY decision');
+  }
+  return response;
+}
+
+function sendJson(res: ServerResponse, status: number, body: object): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
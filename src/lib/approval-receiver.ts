@@ -0,0 +1,116 @@
+import type {
+  ApprovalResponse,
+  ApprovalStore,
+  ApprovalWebhookPayload,
+  SignedApprovalResponse,
+  WebhookSecurityConfig,
+} from '../types.js';
+import { InMemoryApprovalStore } from './approval-store.js';
+import { AgentGuardError } from './errors.js';
+import { WebhookSecurity, normalizeHeaders } from './webhook-security.js';
+
+// Webhooks older than the signature window are rejected, so older nonces can be forgotten
+const NONCE_RETENTION = 10 * 60 * 1000;
+
+/**
+ * The approval service's side of the webhook protocol: verifies and decrypts the approval
+ * webhooks HITLManager sends, and signs the responses posted back to the agent. Configure it
+ * with the same security settings as the agent's webhook, from the receiving side: the keys
+ * that verify the agent's webhooks, and the key the agent verifies responses with.
+ */
+export class ApprovalReceiver {
+  private readonly security: WebhookSecurity;
+
+  constructor(
+    private readonly config: WebhookSecurityConfig,
+    private readonly store: ApprovalStore = new InMemoryApprovalStore(),
+  ) {
+    this.security = new WebhookSecurity(config);
+  }
+
+  /**
+   * Verify an approval webhook and return its payload with sensitive fields decrypted.
+   * `body` must be the raw request body, and each webhook is only accepted once.
+   */
+  async receive(
+    body: string,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<ApprovalWebhookPayload> {
+    const normalizedHeaders = normalizeHeaders(headers);
+    const requestId = normalizedHeaders['x-agentguard-request-id'] ?? '';
+
+    const validation = this.security.validateResponse(body, normalizedHeaders, requestId);
+    if (!validation.valid) {
+      throw new AgentGuardError(
+        `Invalid approval webhook: ${validation.reason}`,
+        'INVALID_WEBHOOK_SIGNATURE',
+      );
+    }
+
+    let payload: ApprovalWebhookPayload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new AgentGuardError(
+        'Approval webhook body is not valid JSON',
+        'INVALID_WEBHOOK_PAYLOAD',
+      );
+    }
+
+    if (payload?.type !== 'approval_request' || payload.request?.id !== requestId) {
+      throw new AgentGuardError(
+        'Approval webhook body is not an approval request for its request ID',
+        'INVALID_WEBHOOK_PAYLOAD',
+      );
+    }
+
+    const now = Date.now();
+    await this.store.pruneNonces(now - NONCE_RETENTION);
+    if (!(await this.store.addNonce(normalizedHeaders['x-agentguard-nonce']!, now))) {
+      throw new AgentGuardError(
+        'Duplicate nonce detected - possible replay attack',
+        'DUPLICATE_NONCE',
+      );
+    }
+
+    return this.config.sensitiveFields
+      ? this.security.decryptFields(payload, this.config.sensitiveFields)
+      : payload;
+  }
+
+  /**
+   * Build a signed approval response for the agent's `handleApprovalResponse`
+   */
+  signResponse(response: ApprovalResponse): SignedApprovalResponse {
+    const body = JSON.stringify(response);
+    return {
+      response,
+      body,
+      headers: this.security.generateHeaders(body, response.requestId),
+    };
+  }
+
+  /**
+   * Approve a request
+   */
+  approve(requestId: string, approvedBy: string, reason?: string): SignedApprovalResponse {
+    return this.signResponse({
+      requestId,
+      decision: 'APPROVE',
+      approvedBy,
+      ...(reason !== undefined && { reason }),
+    });
+  }
+
+  /**
+   * Deny a request
+   */
+  deny(requestId: string, deniedBy: string, reason?: string): SignedApprovalResponse {
+    return this.signResponse({
+      requestId,
+      decision: 'DENY',
+      approvedBy: deniedBy,
+      ...(reason !== undefined && { reason }),
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+
+import type {
+  ApprovalRequest,
+  ApprovalStore,
+  HITLWorkflowResult,
+  StoredApproval,
+} from '../types.js';
+
+/**
+ * Approval store that keeps everything in process memory. This is the default; pending
+ * approvals do not survive a restart.
+ */
+export class InMemoryApprovalStore implements ApprovalStore {
+  private readonly approvals = new Map<string, StoredApproval>();
+  private readonly nonces = new Map<string, number>();
+
+  async saveRequest(request: ApprovalRequest): Promise<void> {
+    this.approvals.set(request.id, { request });
+  }
+
+  async getRequest(requestId: string): Promise<StoredApproval | undefined> {
+    return this.approvals.get(requestId);
+  }
+
+  async saveResponse(requestId: string, response: HITLWorkflowResult): Promise<void> {
+    const stored = this.approvals.get(requestId);
+    if (stored) {
+      this.approvals.set(requestId, { ...stored, response });
+    }
+  }
+
+  async deleteRequest(requestId: string): Promise<void> {
+    this.approvals.delete(requestId);
+  }
+
+  async listRequests(): Promise<StoredApproval[]> {
+    return Array.from(this.approvals.values());
+  }
+
+  async addNonce(nonce: string, timestamp: number): Promise<boolean> {
+    if (this.nonces.has(nonce)) {
+      return false;
+    }
+    this.nonces.set(nonce, timestamp);
+    return true;
+  }
+
+  async pruneNonces(olderThan: number): Promise<number> {
+    let pruned = 0;
+    for (const [nonce, timestamp] of this.nonces.entries()) {
+      if (timestamp < olderThan) {
+        this.nonces.delete(nonce);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+type ApprovalStoreFile = {
+  approvals: Record<string, StoredApproval>;
+  nonces: Record<string, number>;
+};
+
+/**
+ * Approval store persisted to a JSON file, so a restarted process can pick up pending
+ * approvals, early responses and processed nonces.
+ *
+ * Every operation re-reads the file and replaces it atomically. Writes are serialized
+ * within a process; the file must not be shared by processes writing concurrently.
+ */
+export class FileApprovalStore implements ApprovalStore {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  saveRequest(request: ApprovalRequest): Promise<void> {
+    return this.update(data => {
+      data.approvals[request.id] = { request };
+    });
+  }
+
+  async getRequest(requestId: string): Promise<StoredApproval | undefined> {
+    const data = await this.read();
+    return data.approvals[requestId];
+  }
+
+  saveResponse(requestId: string, response: HITLWorkflowResult): Promise<void> {
+    return this.update(data => {
+      const stored = data.approvals[requestId];
+      if (stored) {
+        data.approvals[requestId] = { ...stored, response };
+      }
+    });
+  }
+
+  deleteRequest(requestId: string): Promise<void> {
+    return this.update(data => {
+      delete data.approvals[requestId];
+    });
+  }
+
+  async listRequests(): Promise<StoredApproval[]> {
+    const data = await this.read();
+    return Object.values(data.approvals);
+  }
+
+  addNonce(nonce: string, timestamp: number): Promise<boolean> {
+    return this.update(data => {
+      if (nonce in data.nonces) {
+        return false;
+      }
+      data.nonces[nonce] = timestamp;
+      return true;
+    });
+  }
+
+  pruneNonces(olderThan: number): Promise<number> {
+    return this.update(data => {
+      let pruned = 0;
+      for (const [nonce, timestamp] of Object.entries(data.nonces)) {
+        if (timestamp < olderThan) {
+          delete data.nonces[nonce];
+          pruned++;
+        }
+      }
+      return pruned;
+    });
+  }
+
+  /**
+   * Apply a change to the stored data and write it back
+   */
+  private update<T>(change: (data: ApprovalStoreFile) => T): Promise<T> {
+    const result = this.queue.then(async () => {
+      const data = await this.read();
+      const value = change(data);
+      await this.write(data);
+      return value;
+    });
+    this.queue = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  private async read(): Promise<ApprovalStoreFile> {
+    if (!existsSync(this.path)) {
+      return { approvals: {}, nonces: {} };
+    }
+
+    const data = JSON.parse(await readFile(this.path, 'utf-8')) as Partial<ApprovalStoreFile>;
+    return { approvals: data.approvals ?? {}, nonces: data.nonces ?? {} };
+  }
+
+  private async write(data: ApprovalStoreFile): Promise<void> {
+    // Write to a temporary file first so a crash never leaves a half-written store
+    const tempPath = `${this.path}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data), { encoding: 'utf-8', mode: 0o600 });
+    await rename(tempPath, this.path);
+  }
+}
@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { appendFile, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+
+import { AgentGuardError } from './errors.js';
+import type { Logger } from './logger.js';
+import type { AuditEntry, AuditLogIssue, AuditVerificationResult } from '../types.js';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// What callers provide; the log fills in sequencing, timing and the chain
+type AuditRecord = Omit<AuditEntry, 'sequence' | 'timestamp' | 'previousHash' | 'hash'>;
+
+/**
+ * Append-only JSONL audit log of guard decisions.
+ *
+ * Every entry carries the hash of the entry before it, so deleting, reordering or editing
+ * any entry breaks the chain and is reported by `AuditLog.verify()`.
+ */
+export class AuditLog {
+  // Sequence number and hash of the last written entry; loaded from the file on first write
+  private head: { sequence: number; hash: string } | null = null;
+  // Writes are chained so concurrent tool calls cannot interleave entries
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly logger: Logger,
+    private readonly clock: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Append an entry, linking it to the previous one
+   */
+  record(entry: AuditRecord): Promise<AuditEntry> {
+    const write = this.queue.then(() => this.append(entry));
+    this.queue = write.then(
+      () => undefined,
+      () => undefined,
+    );
+    return write;
+  }
+
+  private async append(entry: AuditRecord): Promise<AuditEntry> {
+    const head = this.head ?? (await this.readHead());
+
+    const body = {
+      sequence: head.sequence + 1,
+      timestamp: this.clock().toISOString(),
+      ...entry,
+      previousHash: head.hash,
+    };
+    // Hash the serialized form so verification can recompute it from the file alone
+    const serialized = JSON.stringify(body);
+    const written: AuditEntry = {
+      ...(JSON.parse(serialized) as Omit<AuditEntry, 'hash'>),
+      hash: hashEntry(serialized),
+    };
+
+    await appendFile(this.path, `${JSON.stringify(written)}\n`, 'utf-8');
+
+    this.head = { sequence: written.sequence, hash: written.hash };
+    this.logger.debug(`Audit entry ${written.sequence} written`, { outcome: written.outcome });
+
+    return written;
+  }
+
+  /**
+   * Find the last entry of an existing log so new entries continue its chain
+   */
+  private async readHead(): Promise<{ sequence: number; hash: string }> {
+    if (!existsSync(this.path)) {
+      return { sequence: 0, hash: GENESIS_HASH };
+    }
+
+    const lines = (await readFile(this.path, 'utf-8')).split('\n').filter(line => line.trim());
+    const lastLine = lines[lines.length - 1];
+    if (!lastLine) {
+      return { sequence: 0, hash: GENESIS_HASH };
+    }
+
+    try {
+      const last = JSON.parse(lastLine) as AuditEntry;
+      if (typeof last.sequence !== 'number' || typeof last.hash !== 'string') {
+        throw new Error('missing sequence or hash');
+      }
+      return { sequence: last.sequence, hash: last.hash };
+    } catch (error) {
+      throw new AgentGuardError(
+        `Cannot continue audit log ${this.path}: last entry is unreadable (${error instanceof Error ? error.message : 'Unknown error'})`,
+        'AUDIT_LOG_CORRUPT',
+      );
+    }
+  }
+
+  /**
+   * Verify the hash chain of an audit log file, reporting every entry that was edited,
+   * removed or is out of order
+   */
+  static async verify(path: string): Promise<AuditVerificationResult> {
+    const lines = (await readFile(path, 'utf-8')).split('\n');
+    const issues: AuditLogIssue[] = [];
+
+    let entryCount = 0;
+    let expectedSequence = 1;
+    let previousHash = GENESIS_HASH;
+    let lastHash: string | null = null;
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      const lineNumber = index + 1;
+      entryCount++;
+
+      let entry: Record<string, unknown>;
+      try {
+        entry = JSON.parse(line) as Record<string, unknown>;
+      } catch {
+        issues.push({ line: lineNumber, reason: 'Entry is not valid JSON' });
+        return;
+      }
+
+      const { hash, ...body } = entry;
+      const sequence = typeof body['sequence'] === 'number' ? body['sequence'] : undefined;
+      const report = (reason: string): void => {
+        issues.push({ line: lineNumber, ...(sequence !== undefined && { sequence }), reason });
+      };
+
+      if (sequence === undefined || typeof hash !== 'string') {
+        report('Entry is missing its sequence number or hash');
+        return;
+      }
+
+      if (hashEntry(JSON.stringify(body)) !== hash) {
+        report('Entry hash does not match its contents (entry was modified)');
+      }
+
+      if (sequence !== expectedSequence) {
+        report(
+          sequence > expectedSequence
+            ? `Expected sequence ${expectedSequence} but found ${sequence} (entries were removed)`
+            : `Expected sequence ${expectedSequence} but found ${sequence} (entries were reordered or duplicated)`,
+        );
+      } else if (body['previousHash'] !== previousHash) {
+        report('Previous hash does not match the preceding entry');
+      }
+
+      // Continue from this entry so a single tampered entry is reported once
+      expectedSequence = sequence + 1;
+      previousHash = hash;
+      lastHash = hash;
+    });
+
+    return { valid: issues.length === 0, entryCount, lastHash, issues };
+  }
+}
+
+function hashEntry(serialized: string): string {
+  return createHash('sha256').update(serialized).digest('hex');
+}
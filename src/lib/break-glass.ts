@@ -0,0 +1,104 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+
+import type { BreakGlassGrant, ToolCall } from '../types.js';
+import { AgentGuardError } from './errors.js';
+
+/**
+ * Issues and verifies break-glass tokens: grants encoded as base64url JSON and signed with
+ * HMAC-SHA256 over a shared secret, so that only holders of the secret can mint overrides.
+ */
+export class BreakGlass {
+  constructor(private readonly secret: string) {
+    if (!secret || secret.length < 32) {
+      throw new Error('Break-glass secret must be at least 32 characters');
+    }
+  }
+
+  /**
+   * Sign a grant lasting `ttl` milliseconds from `now`
+   */
+  issue(
+    options: {
+      agentId?: string;
+      toolNames?: string[];
+      issuedBy: string;
+      reason: string;
+      ttl: number;
+    },
+    now = new Date(),
+  ): string {
+    const { ttl, ...scope } = options;
+    if (scope.agentId === undefined && !scope.toolNames?.length) {
+      throw new AgentGuardError(
+        'A break-glass grant must be scoped to an agent or tools',
+        'INVALID_BREAK_GLASS_GRANT',
+      );
+    }
+    if (!Number.isFinite(ttl) || ttl <= 0) {
+      throw new AgentGuardError(
+        'A break-glass grant must last a positive number of milliseconds',
+        'INVALID_BREAK_GLASS_GRANT',
+      );
+    }
+
+    const grant: BreakGlassGrant = {
+      id: randomUUID(),
+      ...scope,
+      issuedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttl).toISOString(),
+    };
+    const payload = Buffer.from(JSON.stringify(grant)).toString('base64url');
+
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Check a token's signature and expiry and return its grant
+   */
+  verify(token: string, now = new Date()): BreakGlassGrant {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      throw new AgentGuardError('Malformed break-glass token', 'INVALID_BREAK_GLASS_TOKEN');
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new AgentGuardError(
+        'Break-glass token signature is invalid',
+        'INVALID_BREAK_GLASS_TOKEN',
+      );
+    }
+
+    let grant: BreakGlassGrant;
+    try {
+      grant = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw new AgentGuardError('Malformed break-glass token', 'INVALID_BREAK_GLASS_TOKEN');
+    }
+
+    if (!(Date.parse(grant.expiresAt) > now.getTime())) {
+      throw new AgentGuardError(
+        `Break-glass token ${grant.id} expired at ${grant.expiresAt}`,
+        'BREAK_GLASS_TOKEN_EXPIRED',
+        { grantId: grant.id },
+      );
+    }
+
+    return grant;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+/**
+ * Check if a grant covers a tool call
+ */
+export function grantCovers(grant: BreakGlassGrant, toolCall: ToolCall): boolean {
+  return (
+    (grant.agentId === undefined || grant.agentId === toolCall.agentId) &&
+    (grant.toolNames === undefined || grant.toolNames.includes(toolCall.toolName))
+  );
+}
@@ -0,0 +1,509 @@
+import type {
+  ConditionExplanation,
+  FieldCondition,
+  Policy,
+  PolicyCondition,
+  PolicyEvaluationContext,
+  PolicyRule,
+  RuleExplanation,
+  SequenceCondition,
+  SessionCall,
+  TaintCondition,
+  TaintMatch,
+  ToolCall,
+  WindowCondition,
+} from '../types.js';
+import type { Logger } from './logger.js';
+import { getLocalTime, matchesSchedule } from './schedule.js';
+import { matchesScope } from './scope.js';
+import { PARAMETERS_FIELD } from './transforms.js';
+
+const TOOL_NAME_FIELD = 'toolCall.toolName';
+
+/**
+ * A policy prepared for repeated evaluation.
+ *
+ * Compiling happens once per load: rules are sorted by priority, regex patterns are
+ * compiled, and rules that pin `toolCall.toolName` to literal values (via `equals` or `in`)
+ * are indexed so only candidate rules are evaluated for a given tool.
+ */
+export class CompiledPolicy {
+  // Rules in evaluation order (higher priority first, declaration order for ties)
+  readonly rules: PolicyRule[];
+  private readonly regexes = new Map<string, RegExp>();
+  // Candidate rules for each indexed tool name, already merged with the unindexed rules
+  private readonly candidatesByToolName = new Map<string, PolicyRule[]>();
+  private readonly unindexedRules: PolicyRule[] = [];
+
+  constructor(
+    readonly policy: Policy,
+    private readonly logger: Logger,
+  ) {
+    this.rules = [...policy.rules].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+    for (const rule of this.rules) {
+      rule.conditions.forEach(condition => this.compileRegexes(condition, rule));
+    }
+
+    this.buildToolNameIndex();
+  }
+
+  /**
+   * Get the rules that can match a tool, in evaluation order
+   */
+  getCandidateRules(toolName: string): PolicyRule[] {
+    return this.candidatesByToolName.get(toolName) ?? this.unindexedRules;
+  }
+
+  /**
+   * Get the number of rules pinned to specific tool names
+   */
+  getIndexedRuleCount(): number {
+    return this.rules.length - this.unindexedRules.length;
+  }
+
+  /**
+   * Check if a tool call is within the policy's scope
+   */
+  appliesTo(toolCall: ToolCall): boolean {
+    return !this.policy.scope || matchesScope(this.policy.scope, toolCall);
+  }
+
+  /**
+   * Evaluate if a rule matches the current context
+   */
+  async evaluateRule(rule: PolicyRule, context: PolicyEvaluationContext): Promise<boolean> {
+    if (getInactivity(rule, context.timestamp)) {
+      return false;
+    }
+
+    if (rule.scope && !matchesScope(rule.scope, context.toolCall)) {
+      return false;
+    }
+
+    // All conditions must be true for the rule to match
+    for (const condition of rule.conditions) {
+      if (!(await this.evaluateCondition(condition, context))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Explain a rule, resolving every condition so the full trace is reported
+   */
+  explainRule(rule: PolicyRule, context: PolicyEvaluationContext): RuleExplanation {
+    const conditions = rule.conditions.map(condition => this.explainCondition(condition, context));
+    const inactive = getInactivity(rule, context.timestamp);
+    const outOfScope = rule.scope !== undefined && !matchesScope(rule.scope, context.toolCall);
+
+    return {
+      rule,
+      priority: rule.priority ?? 0,
+      matched: !inactive && !outOfScope && conditions.every(condition => condition.passed),
+      ...(inactive && { inactive }),
+      ...(outOfScope && { outOfScope }),
+      conditions,
+    };
+  }
+
+  /**
+   * Evaluate a single condition, recursing into anyOf/allOf/not groups
+   */
+  private async evaluateCondition(
+    condition: PolicyCondition,
+    context: PolicyEvaluationContext,
+  ): Promise<boolean> {
+    if ('anyOf' in condition) {
+      for (const child of condition.anyOf) {
+        if (await this.evaluateCondition(child, context)) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    if ('allOf' in condition) {
+      for (const child of condition.allOf) {
+        if (!(await this.evaluateCondition(child, context))) {
+          return false;
+        }
+      }
+      return true;
+    }
+
+    if ('not' in condition) {
+      return !(await this.evaluateCondition(condition.not, context));
+    }
+
+    if ('previousCall' in condition) {
+      return findPreviousCall(condition, context) !== undefined;
+    }
+
+    if ('taint' in condition) {
+      return findTaintMatches(condition, context).length > 0;
+    }
+
+    if ('schedule' in condition) {
+      return matchesSchedule(condition.schedule, context.timestamp);
+    }
+
+    if ('window' in condition) {
+      return findMatchingSchedule(condition, context) !== -1;
+    }
+
+    return this.evaluateOperator(condition, extractFieldValue(condition.field, context));
+  }
+
+  /**
+   * Explain a condition, resolving every branch of a group
+   */
+  private explainCondition(
+    condition: PolicyCondition,
+    context: PolicyEvaluationContext,
+  ): ConditionExplanation {
+    if ('anyOf' in condition) {
+      const conditions = condition.anyOf.map(child => this.explainCondition(child, context));
+      return { type: 'anyOf', passed: conditions.some(child => child.passed), conditions };
+    }
+
+    if ('allOf' in condition) {
+      const conditions = condition.allOf.map(child => this.explainCondition(child, context));
+      return { type: 'allOf', passed: conditions.every(child => child.passed), conditions };
+    }
+
+    if ('not' in condition) {
+      const inner = this.explainCondition(condition.not, context);
+      return { type: 'not', passed: !inner.passed, conditions: [inner] };
+    }
+
+    if ('previousCall' in condition) {
+      const matchedCall = findPreviousCall(condition, context);
+      return {
+        type: 'previousCall',
+        ...condition.previousCall,
+        ...(matchedCall && { matchedCall }),
+        passed: matchedCall !== undefined,
+      };
+    }
+
+    if ('taint' in condition) {
+      const matches = findTaintMatches(condition, context);
+      return {
+        type: 'taint',
+        field: condition.taint.field ?? PARAMETERS_FIELD,
+        ...(condition.taint.label !== undefined && { label: condition.taint.label }),
+        matches,
+        passed: matches.length > 0,
+      };
+    }
+
+    if ('schedule' in condition) {
+      return {
+        type: 'schedule',
+        schedule: condition.schedule,
+        localTime: getLocalTime(context.timestamp, condition.schedule.timezone),
+        passed: matchesSchedule(condition.schedule, context.timestamp),
+      };
+    }
+
+    if ('window' in condition) {
+      const matchedSchedule = findMatchingSchedule(condition, context);
+      return {
+        type: 'window',
+        window: condition.window,
+        ...(matchedSchedule !== -1 && { matchedSchedule }),
+        passed: matchedSchedule !== -1,
+      };
+    }
+
+    const actual = extractFieldValue(condition.field, context);
+    return {
+      type: 'field',
+      field: condition.field,
+      operator: condition.operator,
+      expected: condition.value,
+      actual,
+      passed: this.evaluateOperator(condition, actual),
+    };
+  }
+
+  /**
+   * Apply a condition's operator to a resolved field value
+   */
+  private evaluateOperator(condition: FieldCondition, value: unknown): boolean {
+    switch (condition.operator) {
+      case 'equals':
+        return value === condition.value;
+
+      case 'contains':
+        return typeof value === 'string' && typeof condition.value === 'string'
+          ? value.includes(condition.value)
+          : false;
+
+      case 'startsWith':
+        return typeof value === 'string' && typeof condition.value === 'string'
+          ? value.startsWith(condition.value)
+          : false;
+
+      case 'endsWith':
+        return typeof value === 'string' && typeof condition.value === 'string'
+          ? value.endsWith(condition.value)
+          : false;
+
+      case 'regex':
+        if (typeof value === 'string' && typeof condition.value === 'string') {
+          return this.getRegex(condition.value).test(value);
+        }
+        return false;
+
+      case 'in':
+        return Array.isArray(condition.value) ? condition.value.includes(value) : false;
+
+      case 'gt':
+      case 'lt':
+      case 'gte':
+      case 'lte':
+        return this.evaluateNumericCondition(condition.operator, value, condition.value);
+
+      default:
+        this.logger.warn(`Unknown condition operator: ${condition.operator}`);
+        return false;
+    }
+  }
+
+  /**
+   * Evaluate numeric conditions
+   */
+  private evaluateNumericCondition(
+    operator: string,
+    value: unknown,
+    conditionValue: unknown,
+  ): boolean {
+    const numValue = typeof value === 'number' ? value : parseFloat(String(value));
+    const numConditionValue =
+      typeof conditionValue === 'number' ? conditionValue : parseFloat(String(conditionValue));
+
+    if (isNaN(numValue) || isNaN(numConditionValue)) {
+      return false;
+    }
+
+    switch (operator) {
+      case 'gt':
+        return numValue > numConditionValue;
+      case 'lt':
+        return numValue < numConditionValue;
+      case 'gte':
+        return numValue >= numConditionValue;
+      case 'lte':
+        return numValue <= numConditionValue;
+      default:
+        return false;
+    }
+  }
+
+  private getRegex(pattern: string): RegExp {
+    let regex = this.regexes.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern);
+      this.regexes.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  private compileRegexes(condition: PolicyCondition, rule: PolicyRule): void {
+    if ('anyOf' in condition) {
+      condition.anyOf.forEach(child => this.compileRegexes(child, rule));
+    } else if ('allOf' in condition) {
+      condition.allOf.forEach(child => this.compileRegexes(child, rule));
+    } else if ('not' in condition) {
+      this.compileRegexes(condition.not, rule);
+    } else if (
+      'field' in condition &&
+      condition.operator === 'regex' &&
+      typeof condition.value === 'string'
+    ) {
+      try {
+        this.getRegex(condition.value);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Rule "${rule.name}" has an invalid regex: ${message}`);
+      }
+    }
+  }
+
+  private buildToolNameIndex(): void {
+    const indexedRules = new Map<PolicyRule, Set<string>>();
+
+    for (const rule of this.rules) {
+      const toolNames = findToolNameConstraint(rule.conditions);
+      if (toolNames) {
+        indexedRules.set(rule, toolNames);
+      } else {
+        this.unindexedRules.push(rule);
+      }
+    }
+
+    const allToolNames = new Set<string>();
+    for (const toolNames of indexedRules.values()) {
+      toolNames.forEach(toolName => allToolNames.add(toolName));
+    }
+
+    // Walking the sorted rules keeps every candidate list in evaluation order
+    for (const toolName of allToolNames) {
+      this.candidatesByToolName.set(
+        toolName,
+        this.rules.filter(rule => {
+          const toolNames = indexedRules.get(rule);
+          return !toolNames || toolNames.has(toolName);
+        }),
+      );
+    }
+  }
+}
+
+/**
+ * Find the literal tool names a rule is restricted to by its AND-ed conditions.
+ * Returns null when the rule can match any tool name.
+ */
+function findToolNameConstraint(conditions: PolicyCondition[]): Set<string> | null {
+  for (const condition of conditions) {
+    if ('allOf' in condition) {
+      const nested = findToolNameConstraint(condition.allOf);
+      if (nested) {
+        return nested;
+      }
+      continue;
+    }
+
+    if (!('field' in condition) || condition.field !== TOOL_NAME_FIELD) {
+      continue;
+    }
+
+    if (condition.operator === 'equals' && typeof condition.value === 'string') {
+      return new Set([condition.value]);
+    }
+
+    if (
+      condition.operator === 'in' &&
+      Array.isArray(condition.value) &&
+      condition.value.every(value => typeof value === 'string')
+    ) {
+      return new Set(condition.value as string[]);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tell whether a timestamp is before a rule's validFrom or after its validUntil
+ */
+function getInactivity(
+  rule: PolicyRule,
+  timestamp: string,
+): RuleExplanation['inactive'] | undefined {
+  const time = Date.parse(timestamp);
+
+  if (rule.validFrom !== undefined && time < Date.parse(rule.validFrom)) {
+    return 'notYetValid';
+  }
+  if (rule.validUntil !== undefined && time > Date.parse(rule.validUntil)) {
+    return 'expired';
+  }
+  return undefined;
+}
+
+/**
+ * Find the most recent call in the session history that satisfies a previousCall condition
+ */
+function findPreviousCall(
+  condition: SequenceCondition,
+  context: PolicyEvaluationContext,
+): SessionCall | undefined {
+  const { toolName, status, within } = condition.previousCall;
+  const history = context.history ?? [];
+  const cutoff = within === undefined ? -Infinity : Date.parse(context.timestamp) - within;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const call = history[i]!;
+    if (Date.parse(call.timestamp) < cutoff) {
+      return undefined;
+    }
+    if (call.toolName === toolName && (status === undefined || call.status === status)) {
+      return call;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the tainted parameters at or under a taint condition's field, with its label if given
+ */
+function findTaintMatches(
+  condition: TaintCondition,
+  context: PolicyEvaluationContext,
+): TaintMatch[] {
+  const { field = PARAMETERS_FIELD, label } = condition.taint;
+
+  return (context.taintedFields ?? []).filter(
+    match =>
+      (match.field === field || match.field.startsWith(`${field}.`)) &&
+      (label === undefined || match.label === label),
+  );
+}
+
+/**
+ * Find the index of the first schedule of a named window that the evaluation timestamp falls
+ * within, or -1. A window the policy does not define never matches.
+ */
+function findMatchingSchedule(
+  condition: WindowCondition,
+  context: PolicyEvaluationContext,
+): number {
+  const schedules = context.policy.windows?.[condition.window] ?? [];
+  return schedules.findIndex(schedule => matchesSchedule(schedule, context.timestamp));
+}
+
+/**
+ * Extract field value from context using dot notation
+ */
+export function extractFieldValue(field: string, context: PolicyEvaluationContext): unknown {
+  if (!field || typeof field !== 'string') {
+    return undefined;
+  }
+
+  const parts = field.split('.');
+  let value: any = context;
+
+  for (const part of parts) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+
+    // Handle array indexing (e.g., "items[0]" or "items.0")
+    const arrayMatch = part.match(/^(.+)\[(\d+)\]$/);
+    if (arrayMatch) {
+      const [, arrayName, indexStr] = arrayMatch;
+      if (arrayName && indexStr && value && typeof value === 'object' && arrayName in value) {
+        const arrayValue = value[arrayName];
+        const index = parseInt(indexStr, 10);
+        if (Array.isArray(arrayValue) && index >= 0 && index < arrayValue.length) {
+          value = arrayValue[index];
+        } else {
+          return undefined;
+        }
+      } else {
+        return undefined;
+      }
+    } else if (value && typeof value === 'object' && part in value) {
+      value = value[part];
+    } else {
+      return undefined;
+    }
+  }
+
+  return value;
+}
@@ -0,0 +1,76 @@
+import type { CounterClient, CounterStore } from '../types.js';
+
+// How often expired counters are swept out of memory
+const SWEEP_INTERVAL = 60000;
+
+/**
+ * Counter store that keeps counts in process memory. This is the default; counts are not
+ * shared between processes and reset on restart. Counters expire by the given clock.
+ */
+export class InMemoryCounterStore implements CounterStore {
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+  // The first increment sweeps, which sets the schedule from the clock
+  private nextSweep = 0;
+
+  constructor(private readonly clock: () => Date = () => new Date()) {}
+
+  async increment(key: string, amount: number, windowMs: number): Promise<number> {
+    const now = this.clock().getTime();
+    this.sweep(now);
+
+    const existing = this.counters.get(key);
+    const counter =
+      existing && existing.expiresAt > now ? existing : { count: 0, expiresAt: now + windowMs };
+    counter.count += amount;
+    this.counters.set(key, counter);
+
+    return counter.count;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > this.clock().getTime() ? counter.count : 0;
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweep) {
+      return;
+    }
+
+    for (const [key, counter] of this.counters.entries()) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+    this.nextSweep = now + SWEEP_INTERVAL;
+  }
+}
+
+/**
+ * Counter store backed by a shared key-value store such as Redis, so that every process
+ * enforcing a policy counts against the same limits. Increments are atomic in the store.
+ */
+export class KeyValueCounterStore implements CounterStore {
+  constructor(
+    private readonly client: CounterClient,
+    private readonly prefix = 'agentguard:counter:',
+  ) {}
+
+  async increment(key: string, amount: number, windowMs: number): Promise<number> {
+    const storeKey = this.prefix + key;
+    const count = await this.client.incrby(storeKey, amount);
+
+    // The first increment created the key, or a release may have recreated one that expired;
+    // let the store drop it once its window is over
+    if (count === amount || amount < 0) {
+      await this.client.pexpire(storeKey, windowMs);
+    }
+
+    return count;
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await this.client.get(this.prefix + key);
+    return value === null ? 0 : Number(value);
+  }
+}
@@ -0,0 +1,188 @@
+import { createHash } from 'crypto';
+
+import type { DecisionCacheStats, GuardResult, Policy, PolicyCondition } from '../types.js';
+import { getScopeFields } from './scope.js';
+
+type CacheEntry = {
+  readonly result: GuardResult;
+  readonly expiresAt: number;
+};
+
+/**
+ * LRU cache of policy decisions with a per-entry TTL.
+ *
+ * Entries are keyed on the values of the fields the policy's rules reference, so two tool
+ * calls that only differ in fields no rule looks at share a cache entry.
+ */
+export class DecisionCache {
+  // Map iteration order doubles as recency order: the first key is the least recently used
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly options: {
+      readonly ttl: number;
+      readonly maxSize: number;
+    },
+    private readonly clock: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Get a cached decision, refreshing its recency
+   */
+  get(key: string): GuardResult | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+
+    if (this.clock().getTime() > entry.expiresAt) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.result;
+  }
+
+  /**
+   * Cache a decision, evicting the least recently used entries when full
+   */
+  set(key: string, result: GuardResult): void {
+    if (this.options.maxSize <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+
+    while (this.entries.size >= this.options.maxSize) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+
+    this.entries.set(key, { result, expiresAt: this.clock().getTime() + this.options.ttl });
+  }
+
+  /**
+   * Drop every cached decision. Counters are kept so stats survive policy reloads.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): DecisionCacheStats {
+    const lookups = this.hits + this.misses;
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+
+  /**
+   * Build a cache key from the resolved values of the referenced fields.
+   * Returns null when the values cannot be serialized (e.g. circular structures).
+   */
+  static createKey(fieldValues: Array<[string, unknown]>): string | null {
+    try {
+      return createHash('sha256').update(stableStringify(fieldValues)).digest('hex');
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Collect the sorted, de-duplicated field paths referenced by a policy's rule conditions.
+ * previousCall and taint conditions are reported as the "history" and "taint" fields, and
+ * schedule and window conditions, like rules with a validity period, as the "timestamp" field.
+ * The tool call fields that policy and rule scopes read are included too.
+ */
+export function collectReferencedFields(policy: Policy): string[] {
+  const fields = new Set<string>();
+
+  const visit = (condition: PolicyCondition): void => {
+    if ('anyOf' in condition) {
+      condition.anyOf.forEach(visit);
+    } else if ('allOf' in condition) {
+      condition.allOf.forEach(visit);
+    } else if ('not' in condition) {
+      visit(condition.not);
+    } else if ('previousCall' in condition) {
+      fields.add('history');
+    } else if ('taint' in condition) {
+      fields.add('taint');
+    } else if ('schedule' in condition || 'window' in condition) {
+      fields.add('timestamp');
+    } else {
+      fields.add(condition.field);
+    }
+  };
+
+  for (const rule of policy.rules) {
+    rule.conditions.forEach(visit);
+    if (rule.validFrom !== undefined || rule.validUntil !== undefined) {
+      fields.add('timestamp');
+    }
+    if (rule.scope) {
+      getScopeFields(rule.scope).forEach(field => fields.add(field));
+    }
+  }
+
+  if (policy.scope) {
+    getScopeFields(policy.scope).forEach(field => fields.add(field));
+  }
+
+  return [...fields].sort();
+}
+
+/**
+ * JSON serialization with sorted object keys so equal values always produce equal strings
+ */
+function stableStringify(value: unknown, seen = new WeakSet<object>()): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+    // Maps, Sets and class instances would all serialize to "{}" and collide
+    throw new TypeError('Cannot serialize non-plain object');
+  }
+
+  if (seen.has(value)) {
+    throw new TypeError('Cannot serialize circular structure');
+  }
+  seen.add(value);
+
+  const serialized = Array.isArray(value)
+    ? `[${value.map(item => stableStringify(item, seen)).join(',')}]`
+    : `{${Object.keys(value)
+        .sort()
+        .map(
+          key =>
+            `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key], seen)}`,
+        )
+        .join(',')}}`;
+
+  seen.delete(value);
+  return serialized;
+}
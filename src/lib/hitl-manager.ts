@@ -1,5 +1,6 @@
 import { randomUUID } from 'crypto';
 import { WebhookSecurity } from './webhook-security.js';
+import { InMemoryApprovalStore } from './approval-store.js';
 
 import type {
   ToolCall,
@@ -7,6 +8,8 @@ import type {
   ApprovalResponse,
   WebhookConfig,
   HITLWorkflowResult,
+  ApprovalStore,
+  Approver,
 } from '../types.js';
 
 import { ApprovalTimeoutError, AgentGuardError } from './errors.js';
@@ -14,9 +17,9 @@ import type { Logger } from './logger.js';
 
 export class HITLManager {
   private webhookSecurity?: WebhookSecurity;
-  private readonly processedNonces = new Map<string, number>();
   private nonceCleanupInterval?: NodeJS.Timeout;
 
+  // Approvals this process is tracking; the store holds what must survive a restart
   private readonly pendingApprovals = new Map<
     string,
     {
@@ -34,27 +37,35 @@ export class HITLManager {
   constructor(
     private readonly webhookConfig: WebhookConfig | null,
     private readonly logger: Logger,
+    private readonly store: ApprovalStore = new InMemoryApprovalStore(),
+    private readonly approver?: Approver,
   ) {
     // Initialize webhook security if configured
     if (webhookConfig?.security) {
       this.webhookSecurity = new WebhookSecurity(webhookConfig.security);
       // Cleanup nonces every 10 minutes
-      this.nonceCleanupInterval = setInterval(() => this.cleanupNonces(), 10 * 60 * 1000);
+      this.nonceCleanupInterval = setInterval(() => void this.cleanupNonces(), 10 * 60 * 1000);
     }
   }
 
   /**
-   * Create an approval request and send it via webhook
+   * Create an approval request and send it to the approver, or via webhook
    */
-  async createApprovalRequest(toolCall: ToolCall): Promise<string> {
+  async createApprovalRequest(
+    toolCall: ToolCall,
+    metadata?: Record<string, unknown>,
+  ): Promise<string> {
     const requestId = randomUUID();
     const request: ApprovalRequest = {
       id: requestId,
       toolCall,
       timestamp: new Date().toISOString(),
       expiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString(), // 30 minutes
+      ...(metadata && { metadata }),
     };
 
+    await this.store.saveRequest(request);
+
     // Initialize the pending approval with proper placeholder handlers
     this.pendingApprovals.set(requestId, {
       request,
@@ -70,14 +81,30 @@ export class HITLManager {
 
     this.logger.info(`Created approval request: ${requestId}`, { request });
 
-    // Send webhook if configured
-    if (this.webhookConfig) {
+    if (this.approver) {
+      try {
+        // Responses come from this process, so they are not signed
+        await this.approver.requestApproval(request, async response => {
+          await this.settle(await this.findRequest(requestId), { ...response, requestId });
+        });
+        this.logger.info(`Approval request sent to approver: ${requestId}`);
+      } catch (error) {
+        this.pendingApprovals.delete(requestId);
+        await this.forgetRequest(requestId);
+        this.logger.error(`Failed to send approval request to approver: ${requestId}`, error);
+        throw new AgentGuardError(
+          `Failed to send approval request to approver: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'APPROVER_FAILED',
+        );
+      }
+    } else if (this.webhookConfig) {
       try {
         await this.sendWebhook(request);
         this.logger.info(`Webhook sent for approval request: ${requestId}`);
       } catch (error) {
         // Clean up the pending request on webhook failure
         this.pendingApprovals.delete(requestId);
+        await this.forgetRequest(requestId);
         this.logger.error(`Failed to send webhook for approval request: ${requestId}`, error);
         throw new AgentGuardError(
           `Failed to send approval request webhook: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -95,12 +122,23 @@ export class HITLManager {
   }
 
   /**
-   * Wait for approval response with timeout
+   * Wait for approval response with timeout.
+   * Requests created by a previous process are resumed from the approval store.
    */
   async waitForApproval(requestId: string, timeout: number): Promise<HITLWorkflowResult> {
-    const startTime = Date.now();
+    // Only requests this process does not know about need a store lookup
+    const stored = this.pendingApprovals.has(requestId)
+      ? undefined
+      : await this.store.getRequest(requestId);
+
+    // The response arrived while no process was waiting for it
+    if (stored?.response) {
+      this.logger.debug(`Found stored response for request: ${requestId}`);
+      await this.forgetRequest(requestId);
+      return stored.response;
+    }
 
-    return new Promise<HITLWorkflowResult>((resolve, reject) => {
+    const approval = new Promise<HITLWorkflowResult>((resolve, reject) => {
       // Check if we already have this request (from createApprovalRequest)
       const existingEntry = this.pendingApprovals.get(requestId);
       if (existingEntry) {
@@ -108,6 +146,7 @@ export class HITLManager {
         if (existingEntry.earlyResponse) {
           this.logger.debug(`Found early response for request: ${requestId}`);
           this.pendingApprovals.delete(requestId);
+          void this.forgetRequest(requestId);
           resolve(existingEntry.earlyResponse);
           return;
         }
@@ -115,6 +154,7 @@ export class HITLManager {
         // Set up timeout
         const timeoutId = setTimeout(() => {
           this.pendingApprovals.delete(requestId);
+          void this.forgetRequest(requestId);
           reject(
             new ApprovalTimeoutError(`Approval request timed out after ${timeout}ms`, requestId),
           );
@@ -135,14 +175,19 @@ export class HITLManager {
         // Set up timeout
         const timeoutId = setTimeout(() => {
           this.pendingApprovals.delete(requestId);
+          void this.forgetRequest(requestId);
           reject(
             new ApprovalTimeoutError(`Approval request timed out after ${timeout}ms`, requestId),
           );
         }, timeout);
 
+        if (stored) {
+          this.logger.info(`Resuming wait for stored approval request: ${requestId}`);
+        }
+
         // Store the pending approval (fallback if createApprovalRequest wasn't called)
         this.pendingApprovals.set(requestId, {
-          request: {
+          request: stored?.request ?? {
             id: requestId,
             toolCall: {} as ToolCall, // Will be populated by createApprovalRequest
             timestamp: new Date().toISOString(),
@@ -162,24 +207,39 @@ export class HITLManager {
 
       this.logger.debug(`Waiting for approval: ${requestId} (timeout: ${timeout}ms)`);
     });
+
+    if (stored) {
+      // A response may have been stored between the lookup above and registering the wait
+      const latest = await this.store.getRequest(requestId);
+      if (latest?.response && this.pendingApprovals.get(requestId)?.waitingForApproval) {
+        await this.resolvePending(requestId, latest.response);
+      }
+    }
+
+    return approval;
   }
 
   /**
-   * Handle approval response from external system
+   * Handle approval response from external system. The signature is checked against
+   * `rawBody`, the body exactly as received, when given; otherwise against the response
+   * serialized with `JSON.stringify`, which only matches senders that sign that form.
+   * A response that differs from the raw body it came with is rejected.
    */
   async handleApprovalResponse(
     response: ApprovalResponse,
     headers?: Record<string, string>,
+    rawBody?: string,
   ): Promise<void> {
-    const pending = this.pendingApprovals.get(response.requestId);
-
-    if (!pending) {
+    // The signature covers the raw body, so the response acted on must be the one it holds
+    if (rawBody !== undefined && !describesResponse(rawBody, response)) {
       throw new AgentGuardError(
-        `Unknown approval request ID: ${response.requestId}`,
-        'UNKNOWN_REQUEST_ID',
+        'Invalid approval response: Response does not match the body it was received in',
+        'RESPONSE_BODY_MISMATCH',
       );
     }
 
+    const request = await this.findRequest(response.requestId);
+
     // Validate the response if security is enabled
     if (this.webhookSecurity) {
       if (!headers) {
@@ -190,12 +250,8 @@ export class HITLManager {
       }
 
       // First use validateResponse to check for missing headers and basic validation
-      const responseBody = JSON.stringify(response);
-      const validation = this.webhookSecurity.validateResponse(
-        responseBody,
-        headers,
-        pending.request.id,
-      );
+      const responseBody = rawBody ?? JSON.stringify(response);
+      const validation = this.webhookSecurity.validateResponse(responseBody, headers, request.id);
 
       if (!validation.valid) {
         throw new AgentGuardError(
@@ -216,24 +272,44 @@ export class HITLManager {
 
       // Check nonce to prevent replay attacks
       const nonce = headers['x-agentguard-nonce'];
-      if (nonce) {
-        if (this.processedNonces.has(nonce)) {
-          throw new AgentGuardError(
-            'Duplicate nonce detected - possible replay attack',
-            'DUPLICATE_NONCE',
-          );
-        }
-        this.processedNonces.set(nonce, Date.now());
+      if (nonce && !(await this.store.addNonce(nonce, Date.now()))) {
+        throw new AgentGuardError(
+          'Duplicate nonce detected - possible replay attack',
+          'DUPLICATE_NONCE',
+        );
       }
     }
 
     this.logger.info(`Received approval response`, {
       requestId: response.requestId,
       headerRequestId: headers?.['x-agentguard-request-id'],
-      storedRequestId: pending.request.id,
-      match: response.requestId === pending.request.id,
+      storedRequestId: request.id,
+      match: response.requestId === request.id,
     });
-    const responseTime = Date.now() - new Date(pending.request.timestamp).getTime();
+
+    await this.settle(request, response);
+  }
+
+  /**
+   * Look up a pending approval request; it may have been created by a previous process
+   */
+  private async findRequest(requestId: string): Promise<ApprovalRequest> {
+    const request =
+      this.pendingApprovals.get(requestId)?.request ??
+      (await this.store.getRequest(requestId))?.request;
+
+    if (!request) {
+      throw new AgentGuardError(`Unknown approval request ID: ${requestId}`, 'UNKNOWN_REQUEST_ID');
+    }
+
+    return request;
+  }
+
+  /**
+   * Settle a request with a response, or keep the response until someone waits for it
+   */
+  private async settle(request: ApprovalRequest, response: ApprovalResponse): Promise<void> {
+    const responseTime = Date.now() - new Date(request.timestamp).getTime();
     const result: HITLWorkflowResult = {
       approved: response.decision === 'APPROVE',
       reason: response.reason,
@@ -241,23 +317,47 @@ export class HITLManager {
       responseTime,
     };
 
+    // Looked up again as waitForApproval may have been called while the store was consulted
+    const pending = this.pendingApprovals.get(response.requestId);
+
     // Check if waitForApproval has been called (real handlers are set)
-    if (pending.waitingForApproval) {
+    if (pending?.waitingForApproval) {
       // Real handlers are set, resolve immediately
-      this.pendingApprovals.delete(response.requestId);
-      clearTimeout(pending.timeoutId);
-      pending.resolve(result);
+      await this.resolvePending(response.requestId, result);
     } else {
       // waitForApproval hasn't been called yet, store the early response
-      if (pending.earlyResponse) {
+      if (pending?.earlyResponse) {
         this.logger.warn(
           `Received duplicate early response for request: ${response.requestId}. This may indicate duplicate webhook delivery.`,
         );
       } else {
         this.logger.debug(`Storing early response for request: ${response.requestId}`);
       }
-      pending.earlyResponse = result;
+      if (pending) {
+        pending.earlyResponse = result;
+      }
+      await this.store.saveResponse(response.requestId, result);
+
+      // A resumed waitForApproval may have started waiting while the response was saved
+      if (this.pendingApprovals.get(response.requestId)?.waitingForApproval) {
+        await this.resolvePending(response.requestId, result);
+      }
+    }
+  }
+
+  /**
+   * Hand a response to the waiting caller and drop the settled request
+   */
+  private async resolvePending(requestId: string, result: HITLWorkflowResult): Promise<void> {
+    const pending = this.pendingApprovals.get(requestId);
+    if (!pending) {
+      return;
     }
+
+    this.pendingApprovals.delete(requestId);
+    clearTimeout(pending.timeoutId);
+    pending.resolve(result);
+    await this.forgetRequest(requestId);
   }
 
   /**
@@ -337,6 +437,15 @@ export class HITLManager {
     return Array.from(this.pendingApprovals.values()).map(p => p.request);
   }
 
+  /**
+   * Get the approval requests held by the approval store, including those created by
+   * previous processes that nobody is waiting on yet
+   */
+  async getStoredApprovals(): Promise<ApprovalRequest[]> {
+    const stored = await this.store.listRequests();
+    return stored.map(approval => approval.request);
+  }
+
   /**
    * Cancel a pending approval request
    */
@@ -350,6 +459,7 @@ export class HITLManager {
     this.logger.info(`Cancelling approval request: ${requestId}`, { reason });
 
     this.pendingApprovals.delete(requestId);
+    void this.forgetRequest(requestId);
     clearTimeout(pending.timeoutId);
     pending.reject(
       new AgentGuardError(`Approval request cancelled: ${reason}`, 'APPROVAL_CANCELLED'),
@@ -362,34 +472,66 @@ export class HITLManager {
    * Clean up expired approval requests
    */
   cleanupExpiredRequests(): number {
+    const expired = this.expirePendingRequests(Date.now());
+    for (const requestId of expired) {
+      void this.forgetRequest(requestId);
+    }
+
+    if (expired.length > 0) {
+      this.logger.info(`Cleaned up ${expired.length} expired approval requests`);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Clean up expired approval requests like cleanupExpiredRequests(), and also remove those
+   * left in the store by previous processes that nobody resumed
+   */
+  async pruneExpiredRequests(): Promise<number> {
     const now = Date.now();
-    let cleanedCount = 0;
+    const expired = this.expirePendingRequests(now);
+    await Promise.all(expired.map(requestId => this.forgetRequest(requestId)));
+    let cleanedCount = expired.length;
+
+    try {
+      for (const { request } of await this.store.listRequests()) {
+        if (!this.pendingApprovals.has(request.id) && now > expiryTime(request)) {
+          this.logger.debug(`Cleaning up expired stored approval request: ${request.id}`);
+          await this.forgetRequest(request.id);
+          cleanedCount++;
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to clean up expired approval requests in store', error);
+    }
 
-    for (const [requestId, pending] of this.pendingApprovals.entries()) {
-      const requestTime = new Date(pending.request.timestamp).getTime();
-      const expiresAt = pending.request.expiresAt
-        ? new Date(pending.request.expiresAt).getTime()
-        : null;
+    if (cleanedCount > 0) {
+      this.logger.info(`Cleaned up ${cleanedCount} expired approval requests`);
+    }
 
-      // Clean up if expired or very old (1 hour default)
-      const maxAge = expiresAt || requestTime + 60 * 60 * 1000;
+    return cleanedCount;
+  }
 
-      if (now > maxAge) {
+  /**
+   * Reject and drop the pending requests that have expired, returning their IDs
+   */
+  private expirePendingRequests(now: number): string[] {
+    const expired: string[] = [];
+
+    for (const [requestId, pending] of this.pendingApprovals.entries()) {
+      if (now > expiryTime(pending.request)) {
         this.logger.debug(`Cleaning up expired approval request: ${requestId}`);
         clearTimeout(pending.timeoutId);
         pending.reject(
           new ApprovalTimeoutError('Approval request expired during cleanup', requestId),
         );
         this.pendingApprovals.delete(requestId);
-        cleanedCount++;
+        expired.push(requestId);
       }
     }
 
-    if (cleanedCount > 0) {
-      this.logger.info(`Cleaned up ${cleanedCount} expired approval requests`);
-    }
-
-    return cleanedCount;
+    return expired;
   }
 
   /**
@@ -427,55 +569,30 @@ export class HITLManager {
       return payload;
     }
 
-    const result = JSON.parse(JSON.stringify(payload)); // Deep clone
-    const sensitiveFields = this.webhookConfig.security.sensitiveFields;
-
-    const encryptField = (obj: any, path: string) => {
-      const parts = path.split('.');
-
-      let current = obj;
-
-      for (let i = 0; i < parts.length - 1; i++) {
-        const part = parts[i];
-
-        if (!part || !current[part]) {
-          return;
-        }
-
-        current = current[part];
-      }
-
-      const fieldName = parts[parts.length - 1];
-
-      if (fieldName && current[fieldName] !== undefined) {
-        const encrypted = this.webhookSecurity!.encryptPayload({
-          value: current[fieldName],
-        });
-
-        current[fieldName] = {
-          ...encrypted,
-        };
-      }
-    };
-
-    for (const field of sensitiveFields) {
-      encryptField(result, field);
-    }
-
-    return result;
+    return this.webhookSecurity.encryptFields(payload, this.webhookConfig.security.sensitiveFields);
   }
 
-  private cleanupNonces(): void {
-    const now = Date.now();
+  private async cleanupNonces(): Promise<void> {
     const maxAge = 10 * 60 * 1000; // 10 minutes
 
-    for (const [nonce, timestamp] of this.processedNonces.entries()) {
-      if (now - timestamp > maxAge) {
-        this.processedNonces.delete(nonce);
-      }
+    try {
+      const pruned = await this.store.pruneNonces(Date.now() - maxAge);
+      this.logger.debug(`Cleaned up ${pruned} old nonces`);
+    } catch (error) {
+      this.logger.error('Failed to clean up old nonces', error);
     }
+  }
 
-    this.logger.debug(`Cleaned up old nonces, ${this.processedNonces.size} remaining`);
+  /**
+   * Remove a settled approval request from the store. Failures are logged, as the request
+   * has already been settled in this process.
+   */
+  private async forgetRequest(requestId: string): Promise<void> {
+    try {
+      await this.store.deleteRequest(requestId);
+    } catch (error) {
+      this.logger.error(`Failed to remove approval request from store: ${requestId}`, error);
+    }
   }
 
   destroy(): void {
@@ -484,3 +601,32 @@ export class HITLManager {
     }
   }
 }
+
+/**
+ * Whether a raw body holds the given response
+ */
+function describesResponse(rawBody: string, response: ApprovalResponse): boolean {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawBody);
+  } catch {
+    return false;
+  }
+
+  return (
+    typeof parsed === 'object' &&
+    parsed !== null &&
+    (['requestId', 'decision', 'reason', 'approvedBy'] as const).every(
+      key => (parsed as Record<string, unknown>)[key] === response[key],
+    )
+  );
+}
+
+/**
+ * When a request expires: its expiresAt, or an hour after it was made
+ */
+function expiryTime(request: ApprovalRequest): number {
+  return request.expiresAt
+    ? new Date(request.expiresAt).getTime()
+    : new Date(request.timestamp).getTime() + 60 * 60 * 1000;
+}
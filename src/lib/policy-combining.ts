@@ -0,0 +1,44 @@
+import type { CombiningAlgorithm, GuardResult, PolicyDecision } from '../types.js';
+
+export const COMBINING_ALGORITHMS: readonly CombiningAlgorithm[] = [
+  'deny-overrides',
+  'permit-overrides',
+  'approval-overrides',
+  'first-applicable',
+];
+
+// Decisions from most to least overriding; first-applicable goes by policy order instead
+const PRECEDENCE: Record<
+  Exclude<CombiningAlgorithm, 'first-applicable'>,
+  readonly PolicyDecision[]
+> = {
+  'deny-overrides': ['BLOCK', 'REQUIRE_HUMAN_APPROVAL', 'MODIFY', 'ALLOW'],
+  'permit-overrides': ['ALLOW', 'MODIFY', 'REQUIRE_HUMAN_APPROVAL', 'BLOCK'],
+  'approval-overrides': ['REQUIRE_HUMAN_APPROVAL', 'BLOCK', 'MODIFY', 'ALLOW'],
+};
+
+/**
+ * Pick the policy result that decides a call, given results in policy order. Only results
+ * from a matching rule compete; when there are none, the policies' default actions do.
+ * Ties go to the earlier policy. There must be at least one result.
+ */
+export function selectDecidingResult<T extends { readonly result: GuardResult }>(
+  algorithm: CombiningAlgorithm,
+  results: readonly T[],
+): T {
+  const applicable = results.filter(entry => entry.result.rule !== undefined);
+  const [first, ...rest] = applicable.length > 0 ? applicable : results;
+
+  if (algorithm === 'first-applicable') {
+    return first!;
+  }
+
+  const precedence = PRECEDENCE[algorithm];
+  return rest.reduce(
+    (best, entry) =>
+      precedence.indexOf(entry.result.decision) < precedence.indexOf(best.result.decision)
+        ? entry
+        : best,
+    first!,
+  );
+}
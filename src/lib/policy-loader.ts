@@ -1,32 +1,77 @@
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
+import { dirname, resolve } from 'path';
 import * as yaml from 'js-yaml';
-import type { Policy, PolicyRule, PolicyCondition } from '../types.js';
+import type {
+  Policy,
+  PolicyRule,
+  PolicyCondition,
+  PolicyScope,
+  PolicySignature,
+  PolicyVerificationKey,
+  RuleTransform,
+  Schedule,
+} from '../types.js';
 import { PolicyLoadError } from './errors.js';
+import { DAYS_OF_WEEK, isValidTimezone } from './schedule.js';
+import { SCOPE_KEYS } from './scope.js';
+import { SIGNATURE_EXTENSION, verifyPolicySignature } from './policy-signing.js';
+import { PARAMETERS_FIELD, RESULT_FIELD } from './transforms.js';
 import type { Logger } from './logger.js';
 
+// Where a rule was declared, for error messages once files are merged
+type RuleOrigin = { readonly file: string; readonly index: number };
+
+// The only top-level keys an included file may define
+const INCLUDABLE_KEYS = ['rules', 'resultRules', 'lists', 'windows', 'include'];
+
+// How each timestamp parsed from a policy file was written, as js-yaml turns both
+// `2026-01-01` and `2026-01-01T00:00:00Z` into the same Date
+const timestampSources = new WeakMap<Date, string>();
+
+// js-yaml's own timestamp type, which its type declarations leave out
+const { timestamp } = (yaml as unknown as { types: { timestamp: yaml.Type } }).types;
+
+// The default schema, with timestamps whose source text is remembered
+const POLICY_SCHEMA = yaml.DEFAULT_SCHEMA.extend({
+  implicit: [
+    new yaml.Type('tag:yaml.org,2002:timestamp', {
+      kind: 'scalar',
+      resolve: timestamp.resolve,
+      construct: (data: string) => {
+        const date: Date = timestamp.construct(data);
+        timestampSources.set(date, data);
+        return date;
+      },
+    }),
+  ],
+});
+
 export class PolicyLoader {
-  constructor(private readonly logger: Logger) {}
+  // Files read by the last successful load of each policy, by absolute policy path
+  private readonly sourceFiles = new Map<string, string[]>();
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly options: {
+      // Refuse policy files without a valid detached signature for this key
+      readonly verificationKey?: PolicyVerificationKey | undefined;
+    } = {},
+  ) {}
 
   /**
-   * Load and validate a policy from a YAML file
+   * Load and validate a policy from a YAML file, merging in the files it extends and includes
    */
   async loadPolicy(policyPath: string): Promise<Policy> {
     this.logger.debug(`Loading policy from: ${policyPath}`);
 
-    if (!existsSync(policyPath)) {
-      throw new PolicyLoadError(`Policy file not found: ${policyPath}`, policyPath);
-    }
-
     try {
-      const fileContent = await readFile(policyPath, 'utf-8');
-      const rawPolicy = yaml.load(fileContent) as any;
-
-      if (!rawPolicy || typeof rawPolicy !== 'object') {
-        throw new PolicyLoadError('Policy file must contain a valid YAML object', policyPath);
-      }
+      const origins = new WeakMap<object, RuleOrigin>();
+      const files = new Set<string>();
+      const rawPolicy = await this.readComposedPolicy(policyPath, [], 'root', origins, files);
 
-      const policy = this.validateAndNormalizePolicy(rawPolicy, policyPath);
+      const policy = this.validateAndNormalizePolicy(rawPolicy, policyPath, origins);
+      this.sourceFiles.set(resolve(policyPath), [...files]);
       this.logger.debug('Policy loaded and validated successfully', {
         rulesCount: policy.rules.length,
         defaultAction: policy.defaultAction,
@@ -44,10 +89,247 @@ export class PolicyLoader {
   }
 
   /**
-   * Validate and normalize a policy object
+   * Check a policy file against its detached signature, kept next to it as `<file>.sig`
+   */
+  private async verifySignature(
+    filePath: string,
+    content: Buffer,
+    key: PolicyVerificationKey,
+  ): Promise<void> {
+    const signaturePath = `${filePath}${SIGNATURE_EXTENSION}`;
+    if (!existsSync(signaturePath)) {
+      throw new PolicyLoadError(
+        `Policy file ${filePath} is not signed (no ${signaturePath})`,
+        filePath,
+      );
+    }
+
+    let signature: PolicySignature;
+    try {
+      signature = JSON.parse(await readFile(signaturePath, 'utf-8'));
+    } catch {
+      throw new PolicyLoadError(`Malformed policy signature file: ${signaturePath}`, filePath);
+    }
+
+    if (signature?.algorithm !== key.algorithm) {
+      throw new PolicyLoadError(
+        `Policy file ${filePath} is signed with ${signature?.algorithm}, expected ${key.algorithm}`,
+        filePath,
+      );
+    }
+
+    if (!verifyPolicySignature(content, signature, key)) {
+      throw new PolicyLoadError(
+        `Policy file ${filePath} does not match its signature; it may have been modified since it was signed`,
+        filePath,
+      );
+    }
+
+    this.logger.debug(`Verified policy signature: ${filePath}`);
+  }
+
+  /**
+   * Get the files the last successful load of a policy read: the policy file itself and the
+   * files it extends and includes. Before any load, this is just the policy file.
+   */
+  getSourceFiles(policyPath: string): string[] {
+    const filePath = resolve(policyPath);
+    return this.sourceFiles.get(filePath) ?? [filePath];
+  }
+
+  /**
+   * Read a policy file and merge in the files it references, depth first. Bases named by
+   * `extends` come first, then fragments named by `include`, then the file itself; later
+   * layers replace rules, lists and windows of the same name. Every raw rule is recorded in
+   * `origins` with the file and index it was declared at, and every file read in `files`.
+   */
+  private async readComposedPolicy(
+    policyPath: string,
+    chain: string[],
+    kind: 'root' | 'extends' | 'include',
+    origins: WeakMap<object, RuleOrigin>,
+    files: Set<string>,
+  ): Promise<any> {
+    const filePath = resolve(policyPath);
+    const referencedFrom = chain.length > 0 ? ` (referenced from ${chain[chain.length - 1]})` : '';
+
+    if (chain.includes(filePath)) {
+      throw new PolicyLoadError(
+        `Circular policy reference: ${[...chain, filePath].join(' -> ')}`,
+        chain[0],
+      );
+    }
+
+    if (!existsSync(filePath)) {
+      throw new PolicyLoadError(
+        `Policy file not found: ${policyPath}${referencedFrom}`,
+        policyPath,
+      );
+    }
+    files.add(filePath);
+
+    const content = await readFile(filePath);
+    if (this.options.verificationKey) {
+      await this.verifySignature(filePath, content, this.options.verificationKey);
+    }
+
+    let rawPolicy: any;
+    try {
+      rawPolicy = yaml.load(content.toString('utf-8'), { schema: POLICY_SCHEMA });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const file = kind === 'root' ? '' : ` ${filePath}`;
+      throw new PolicyLoadError(`Failed to load policy${file}: ${message}`, filePath);
+    }
+
+    if (!rawPolicy || typeof rawPolicy !== 'object' || Array.isArray(rawPolicy)) {
+      throw new PolicyLoadError(
+        `Policy file must contain a valid YAML object${referencedFrom}`,
+        filePath,
+      );
+    }
+
+    if (kind === 'include') {
+      const invalidKeys = Object.keys(rawPolicy).filter(key => !INCLUDABLE_KEYS.includes(key));
+      if (invalidKeys.length > 0) {
+        throw new PolicyLoadError(
+          `Included policy file ${filePath} can only define ${INCLUDABLE_KEYS.join(', ')}; found ${invalidKeys.join(', ')}`,
+          filePath,
+        );
+      }
+    }
+
+    for (const key of ['rules', 'resultRules']) {
+      if (Array.isArray(rawPolicy[key])) {
+        rawPolicy[key].forEach((rule: unknown, index: number) => {
+          if (rule && typeof rule === 'object') {
+            origins.set(rule, { file: filePath, index });
+          }
+        });
+      }
+    }
+
+    const { extends: bases, include: includes, ...own } = rawPolicy;
+    const nextChain = [...chain, filePath];
+    const layers: any[] = [];
+
+    for (const base of this.toPathList(bases, 'extends', filePath)) {
+      layers.push(
+        await this.readComposedPolicy(
+          resolve(dirname(filePath), base),
+          nextChain,
+          'extends',
+          origins,
+          files,
+        ),
+      );
+    }
+
+    for (const fragment of this.toPathList(includes, 'include', filePath)) {
+      layers.push(
+        await this.readComposedPolicy(
+          resolve(dirname(filePath), fragment),
+          nextChain,
+          'include',
+          origins,
+          files,
+        ),
+      );
+    }
+
+    return [...layers, own].reduce((merged, layer) => this.mergePolicyLayer(merged, layer), {});
+  }
+
+  /**
+   * Read `extends` or `include`, which name one file or a list of them
+   */
+  private toPathList(value: unknown, key: string, filePath: string): string[] {
+    if (value === undefined) {
+      return [];
+    }
+
+    const paths = Array.isArray(value) ? value : [value];
+    if (!paths.every(path => typeof path === 'string' && path.length > 0)) {
+      throw new PolicyLoadError(
+        `Invalid "${key}" in ${filePath}. Must be a file path or a list of file paths`,
+        filePath,
+      );
+    }
+
+    return paths;
+  }
+
+  /**
+   * Lay one policy document over another. Top-level fields are replaced, rules are replaced
+   * by name and otherwise appended, and lists and windows are replaced by name.
+   */
+  private mergePolicyLayer(base: any, layer: any): any {
+    return {
+      ...base,
+      ...layer,
+      rules: this.mergeRules(base.rules, layer.rules),
+      resultRules: this.mergeRules(base.resultRules, layer.resultRules),
+      lists: this.mergeNamedEntries(base.lists, layer.lists),
+      windows: this.mergeNamedEntries(base.windows, layer.windows),
+    };
+  }
+
+  private mergeRules(baseRules: unknown, layerRules: unknown): unknown {
+    if (layerRules === undefined) {
+      return baseRules;
+    }
+    // Leave malformed values for validation to report
+    if (!Array.isArray(baseRules) || !Array.isArray(layerRules)) {
+      return layerRules;
+    }
+
+    const merged = [...baseRules];
+    for (const rule of layerRules) {
+      const index = merged.findIndex(
+        existing => typeof rule?.name === 'string' && existing?.name === rule.name,
+      );
+      if (index === -1) {
+        merged.push(rule);
+      } else {
+        this.logger.debug(`Rule "${rule.name}" overrides an inherited rule of the same name`);
+        merged[index] = rule;
+      }
+    }
+
+    return merged;
+  }
+
+  private mergeNamedEntries(baseEntries: unknown, layerEntries: unknown): unknown {
+    if (layerEntries === undefined) {
+      return baseEntries;
+    }
+    if (!this.isPlainObject(baseEntries) || !this.isPlainObject(layerEntries)) {
+      return layerEntries;
+    }
+
+    return { ...baseEntries, ...layerEntries };
+  }
+
+  /**
+   * Validate and normalize a policy object. `origins` locates rules merged in from other
+   * files so errors name the file and the rule's index in it.
    */
-  private validateAndNormalizePolicy(rawPolicy: any, policyPath: string): Policy {
+  private validateAndNormalizePolicy(
+    rawPolicy: any,
+    policyPath: string,
+    origins = new WeakMap<object, RuleOrigin>(),
+  ): Policy {
     const errors: string[] = [];
+    const rootFile = resolve(policyPath);
+    const describeRule = (kind: string, rawRule: unknown, index: number): string => {
+      const origin = rawRule && typeof rawRule === 'object' ? origins.get(rawRule) : undefined;
+      if (!origin) {
+        return `${kind} ${index}`;
+      }
+      return origin.file === rootFile
+        ? `${kind} ${origin.index}`
+        : `${kind} ${origin.index} in ${origin.file}`;
+    };
 
     // Validate required fields
     if (!rawPolicy.version || typeof rawPolicy.version !== 'string') {
@@ -58,7 +340,12 @@ export class PolicyLoader {
       errors.push('Missing or invalid "name" field');
     }
 
-    if (!rawPolicy.defaultAction || !this.isValidPolicyDecision(rawPolicy.defaultAction)) {
+    // MODIFY needs a rule's transforms, so it cannot be the default action
+    if (
+      !rawPolicy.defaultAction ||
+      rawPolicy.defaultAction === 'MODIFY' ||
+      !this.isValidPolicyDecision(rawPolicy.defaultAction)
+    ) {
       errors.push(
         'Missing or invalid "defaultAction" field. Must be ALLOW, BLOCK, or REQUIRE_HUMAN_APPROVAL',
       );
@@ -68,19 +355,87 @@ export class PolicyLoader {
       errors.push('"rules" must be an array');
     }
 
+    if (rawPolicy.resultRules !== undefined && !Array.isArray(rawPolicy.resultRules)) {
+      errors.push('"resultRules" must be an array');
+    }
+
+    if (
+      rawPolicy.windows !== undefined &&
+      (!rawPolicy.windows ||
+        typeof rawPolicy.windows !== 'object' ||
+        Array.isArray(rawPolicy.windows))
+    ) {
+      errors.push('"windows" must be a map of window names to schedules');
+    }
+
+    if (rawPolicy.lists !== undefined && !this.isPlainObject(rawPolicy.lists)) {
+      errors.push('"lists" must be a map of list names to arrays of values');
+    }
+
+    let scope: PolicyScope | undefined;
+    if (rawPolicy.scope !== undefined) {
+      try {
+        scope = this.validateAndNormalizeScope(rawPolicy.scope);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
     if (errors.length > 0) {
       throw new PolicyLoadError(`Policy validation failed: ${errors.join(', ')}`, policyPath);
     }
 
+    const lists: Record<string, unknown[]> = {};
+    for (const [name, values] of Object.entries<unknown>(rawPolicy.lists ?? {})) {
+      if (Array.isArray(values)) {
+        lists[name] = values;
+      } else {
+        errors.push(`List "${name}": Must be an array of values`);
+      }
+    }
+
+    // A window is one schedule or a list of them
+    const windows: Record<string, Schedule[]> = {};
+    const windowNames = new Set(Object.keys(rawPolicy.windows ?? {}));
+    for (const [name, rawWindow] of Object.entries<any>(rawPolicy.windows ?? {})) {
+      const rawSchedules = Array.isArray(rawWindow) ? rawWindow : [rawWindow];
+      if (rawSchedules.length === 0) {
+        errors.push(`Window "${name}": Must have at least one schedule`);
+        continue;
+      }
+
+      try {
+        windows[name] = rawSchedules.map((rawSchedule, i) =>
+          this.validateAndNormalizeSchedule(rawSchedule, `Window "${name}"[${i}]`, ''),
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(message);
+      }
+    }
+
     // Validate and normalize rules
     const rules: PolicyRule[] = [];
     for (let i = 0; i < rawPolicy.rules.length; i++) {
       try {
-        const rule = this.validateAndNormalizeRule(rawPolicy.rules[i], i);
+        const rule = this.validateAndNormalizeRule(rawPolicy.rules[i], i, lists);
+        this.checkWindowReferences(rule.conditions, windowNames);
         rules.push(rule);
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        errors.push(`Rule ${i}: ${message}`);
+        errors.push(`${describeRule('Rule', rawPolicy.rules[i], i)}: ${message}`);
+      }
+    }
+
+    const resultRules: PolicyRule[] = [];
+    for (let i = 0; i < (rawPolicy.resultRules?.length ?? 0); i++) {
+      try {
+        const rule = this.validateAndNormalizeRule(rawPolicy.resultRules[i], i, lists, 'result');
+        this.checkWindowReferences(rule.conditions, windowNames);
+        resultRules.push(rule);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(`${describeRule('Result rule', rawPolicy.resultRules[i], i)}: ${message}`);
       }
     }
 
@@ -100,30 +455,103 @@ export class PolicyLoader {
       description: rawPolicy.description || undefined,
       defaultAction: rawPolicy.defaultAction,
       rules,
+      ...(resultRules.length > 0 && { resultRules }),
+      ...(Object.keys(windows).length > 0 && { windows }),
+      ...(scope && { scope }),
       webhook,
     };
   }
 
   /**
-   * Validate and normalize a rule
+   * Validate and normalize a rule. Result rules run after the tool, so they cannot ask for
+   * approval and their transforms rewrite the result instead of the parameters.
    */
-  private validateAndNormalizeRule(rawRule: any, index: number): PolicyRule {
+  private validateAndNormalizeRule(
+    rawRule: any,
+    index: number,
+    lists: Record<string, unknown[]>,
+    phase: 'call' | 'result' = 'call',
+  ): PolicyRule {
     const errors: string[] = [];
 
     if (!rawRule.name || typeof rawRule.name !== 'string') {
       errors.push('Missing or invalid "name" field');
     }
 
-    if (!rawRule.action || !this.isValidPolicyDecision(rawRule.action)) {
+    if (phase === 'result') {
+      if (!['ALLOW', 'BLOCK', 'MODIFY'].includes(rawRule.action)) {
+        errors.push('Missing or invalid "action" field. Must be ALLOW, BLOCK, or MODIFY');
+      }
+    } else if (!rawRule.action || !this.isValidPolicyDecision(rawRule.action)) {
       errors.push(
-        'Missing or invalid "action" field. Must be ALLOW, BLOCK, or REQUIRE_HUMAN_APPROVAL',
+        'Missing or invalid "action" field. Must be ALLOW, BLOCK, REQUIRE_HUMAN_APPROVAL, or MODIFY',
       );
     }
 
+    if (rawRule.action === 'MODIFY') {
+      if (!Array.isArray(rawRule.transforms) || rawRule.transforms.length === 0) {
+        errors.push('Action MODIFY requires a non-empty "transforms" array');
+      }
+    } else if (rawRule.transforms !== undefined) {
+      errors.push('"transforms" is only allowed on MODIFY rules');
+    }
+
     if (!Array.isArray(rawRule.conditions)) {
       errors.push('"conditions" must be an array');
     }
 
+    if (rawRule.mode !== undefined && !['enforce', 'shadow'].includes(rawRule.mode)) {
+      errors.push('Invalid "mode" field. Must be enforce or shadow');
+    }
+
+    if (rawRule.rateLimit !== undefined) {
+      if (phase === 'result') {
+        errors.push('"rateLimit" is not allowed on result rules');
+      } else {
+        errors.push(...this.validateRateLimit(rawRule.rateLimit));
+      }
+    }
+
+    if (rawRule.budget !== undefined) {
+      if (phase === 'result') {
+        errors.push('"budget" is not allowed on result rules');
+      } else if (rawRule.rateLimit !== undefined) {
+        errors.push('"rateLimit" and "budget" cannot be combined on one rule');
+      } else {
+        errors.push(...this.validateBudget(rawRule.budget));
+      }
+    }
+
+    // Validity bounds must be exact instants, so a date alone is not enough
+    const validity: { validFrom?: string; validUntil?: string } = {};
+    for (const key of ['validFrom', 'validUntil'] as const) {
+      if (rawRule[key] === undefined) {
+        continue;
+      }
+      const bound = this.normalizeDateBound(rawRule[key]);
+      if (bound === null || bound.length === 10) {
+        errors.push(`Invalid "${key}" field. Must be an ISO timestamp with an offset`);
+      } else {
+        validity[key] = bound;
+      }
+    }
+    if (
+      validity.validFrom &&
+      validity.validUntil &&
+      Date.parse(validity.validFrom) >= Date.parse(validity.validUntil)
+    ) {
+      errors.push('"validFrom" must be before "validUntil"');
+    }
+
+    let scope: PolicyScope | undefined;
+    if (rawRule.scope !== undefined) {
+      try {
+        scope = this.validateAndNormalizeScope(rawRule.scope);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
     if (errors.length > 0) {
       throw new Error(errors.join(', '));
     }
@@ -132,11 +560,30 @@ export class PolicyLoader {
     const conditions: PolicyCondition[] = [];
     for (let i = 0; i < rawRule.conditions.length; i++) {
       try {
-        const condition = this.validateAndNormalizeCondition(rawRule.conditions[i]);
+        const condition = this.validateAndNormalizeCondition(
+          rawRule.conditions[i],
+          `Condition ${i}`,
+          lists,
+        );
         conditions.push(condition);
       } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        errors.push(`Condition ${i}: ${message}`);
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    const transformRoot = phase === 'result' ? RESULT_FIELD : PARAMETERS_FIELD;
+    const transforms: RuleTransform[] = [];
+    for (let i = 0; i < (rawRule.transforms?.length ?? 0); i++) {
+      try {
+        transforms.push(
+          this.validateAndNormalizeTransform(
+            rawRule.transforms[i],
+            `Transform ${i}`,
+            transformRoot,
+          ),
+        );
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
       }
     }
 
@@ -150,30 +597,330 @@ export class PolicyLoader {
       conditions,
       action: rawRule.action,
       priority: typeof rawRule.priority === 'number' ? rawRule.priority : 0,
+      ...(rawRule.mode && { mode: rawRule.mode }),
+      ...(transforms.length > 0 && { transforms }),
+      ...(rawRule.rateLimit && {
+        rateLimit: {
+          limit: rawRule.rateLimit.limit,
+          window: rawRule.rateLimit.window,
+          per: rawRule.rateLimit.per,
+        },
+      }),
+      ...(rawRule.budget && {
+        budget: {
+          field: rawRule.budget.field,
+          limit: rawRule.budget.limit,
+          window: rawRule.budget.window,
+          per: rawRule.budget.per,
+        },
+      }),
+      ...validity,
+      ...(scope && { scope }),
     };
   }
 
   /**
-   * Validate and normalize a condition
+   * Validate and normalize a policy or rule scope. Each part is one value or a list of them.
+   */
+  private validateAndNormalizeScope(rawScope: any): PolicyScope {
+    if (!this.isPlainObject(rawScope)) {
+      throw new Error('"scope" must be an object');
+    }
+
+    const unknownKeys = Object.keys(rawScope).filter(
+      key => !SCOPE_KEYS.includes(key as keyof PolicyScope),
+    );
+    if (unknownKeys.length > 0) {
+      throw new Error(
+        `Unknown "scope" field "${unknownKeys[0]}". Must be one of: ${SCOPE_KEYS.join(', ')}`,
+      );
+    }
+
+    const scope: { -readonly [K in keyof PolicyScope]: string[] } = {};
+    for (const key of SCOPE_KEYS) {
+      if (rawScope[key] === undefined) {
+        continue;
+      }
+
+      const values: unknown[] = Array.isArray(rawScope[key]) ? rawScope[key] : [rawScope[key]];
+      if (
+        values.length === 0 ||
+        !values.every(value => typeof value === 'string' && value.length > 0)
+      ) {
+        throw new Error(`Invalid "scope.${key}". Must be a non-empty string or list of strings`);
+      }
+      scope[key] = values as string[];
+    }
+
+    if (Object.keys(scope).length === 0) {
+      throw new Error(`"scope" must set at least one of: ${SCOPE_KEYS.join(', ')}`);
+    }
+
+    return scope;
+  }
+
+  /**
+   * Validate a rule's rate limit, returning the problems found
    */
-  private validateAndNormalizeCondition(rawCondition: any): PolicyCondition {
+  private validateRateLimit(rawRateLimit: any): string[] {
+    if (!rawRateLimit || typeof rawRateLimit !== 'object' || Array.isArray(rawRateLimit)) {
+      return ['"rateLimit" must be an object'];
+    }
+
+    const errors: string[] = [];
+    const { limit, window, per } = rawRateLimit;
+
+    if (!Number.isInteger(limit) || limit < 0) {
+      errors.push('Invalid "rateLimit.limit". Must be a non-negative integer');
+    }
+
+    if (!Number.isInteger(window) || window <= 0) {
+      errors.push('Invalid "rateLimit.window". Must be a positive number of milliseconds');
+    }
+
+    if (!['session', 'agent', 'global'].includes(per)) {
+      errors.push('Invalid "rateLimit.per". Must be session, agent, or global');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a rule's budget, returning the problems found
+   */
+  private validateBudget(rawBudget: any): string[] {
+    if (!rawBudget || typeof rawBudget !== 'object' || Array.isArray(rawBudget)) {
+      return ['"budget" must be an object'];
+    }
+
+    const errors: string[] = [];
+    const { field, limit, window, per } = rawBudget;
+
+    if (!field || typeof field !== 'string') {
+      errors.push('Missing or invalid "budget.field"');
+    }
+
+    if (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 0) {
+      errors.push('Invalid "budget.limit". Must be a non-negative number');
+    }
+
+    if (!Number.isInteger(window) || window <= 0) {
+      errors.push('Invalid "budget.window". Must be a positive number of milliseconds');
+    }
+
+    if (!['session', 'agent', 'global'].includes(per)) {
+      errors.push('Invalid "budget.per". Must be session, agent, or global');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate and normalize a MODIFY rule's transform. Parameter transforms must target a
+   * field under toolCall.parameters; result transforms may also target the whole result.
+   */
+  private validateAndNormalizeTransform(
+    rawTransform: any,
+    path: string,
+    root: string,
+  ): RuleTransform {
+    if (!rawTransform || typeof rawTransform !== 'object' || Array.isArray(rawTransform)) {
+      throw new Error(`${path}: Transform must be an object`);
+    }
+
+    const { op, field } = rawTransform;
+    const prefix = `${root}.`;
+
+    if (
+      typeof field !== 'string' ||
+      !(
+        (field.startsWith(prefix) && field.length > prefix.length) ||
+        (root === RESULT_FIELD && field === root)
+      )
+    ) {
+      throw new Error(
+        root === RESULT_FIELD
+          ? `${path}: Missing or invalid "field" property. Must be ${root} or a path under ${prefix}`
+          : `${path}: Missing or invalid "field" property. Must be a path under ${prefix}`,
+      );
+    }
+
+    switch (op) {
+      case 'remove':
+        return { op, field };
+
+      case 'set':
+        if (!('value' in rawTransform)) {
+          throw new Error(`${path}: Transform "set" requires a "value" property`);
+        }
+        return { op, field, value: rawTransform.value };
+
+      case 'clamp': {
+        const { min, max } = rawTransform;
+        if (
+          (min !== undefined && typeof min !== 'number') ||
+          (max !== undefined && typeof max !== 'number') ||
+          (min === undefined && max === undefined)
+        ) {
+          throw new Error(`${path}: Transform "clamp" requires a numeric "min" and/or "max"`);
+        }
+        if (min !== undefined && max !== undefined && min > max) {
+          throw new Error(`${path}: Transform "clamp" has "min" greater than "max"`);
+        }
+        return {
+          op,
+          field,
+          ...(min !== undefined && { min }),
+          ...(max !== undefined && { max }),
+        };
+      }
+
+      case 'truncate':
+        if (!Number.isInteger(rawTransform.max) || rawTransform.max < 0) {
+          throw new Error(`${path}: Transform "truncate" requires a non-negative integer "max"`);
+        }
+        return { op, field, max: rawTransform.max };
+
+      case 'redact': {
+        const { pattern, replacement } = rawTransform;
+        if (pattern !== undefined) {
+          if (typeof pattern !== 'string') {
+            throw new Error(`${path}: Transform "redact" requires a string "pattern"`);
+          }
+          try {
+            new RegExp(pattern);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`${path}: Invalid regex pattern: ${message}`);
+          }
+        }
+        if (replacement !== undefined && typeof replacement !== 'string') {
+          throw new Error(`${path}: Transform "redact" requires a string "replacement"`);
+        }
+        return {
+          op,
+          field,
+          ...(pattern !== undefined && { pattern }),
+          ...(replacement !== undefined && { replacement }),
+        };
+      }
+
+      default:
+        throw new Error(
+          `${path}: Missing or invalid "op" property. Must be remove, set, clamp, truncate, or redact`,
+        );
+    }
+  }
+
+  /**
+   * Validate and normalize a condition, recursing into anyOf/allOf/not groups.
+   * Errors are prefixed with the path of the failing condition (e.g. "Condition 1.anyOf[0]")
+   */
+  private validateAndNormalizeCondition(
+    rawCondition: any,
+    path: string,
+    lists: Record<string, unknown[]>,
+  ): PolicyCondition {
+    if (!rawCondition || typeof rawCondition !== 'object' || Array.isArray(rawCondition)) {
+      throw new Error(`${path}: Condition must be an object`);
+    }
+
+    const groupKeys = ['anyOf', 'allOf', 'not'].filter(key => key in rawCondition);
+
+    if (groupKeys.length > 1) {
+      throw new Error(`${path}: Condition group must have exactly one of anyOf, allOf or not`);
+    }
+
+    if (groupKeys.length === 1) {
+      if ('field' in rawCondition || 'operator' in rawCondition) {
+        throw new Error(`${path}: Condition group cannot also define "field" or "operator"`);
+      }
+
+      return this.validateAndNormalizeConditionGroup(rawCondition, groupKeys[0]!, path, lists);
+    }
+
+    if ('previousCall' in rawCondition) {
+      if ('field' in rawCondition || 'operator' in rawCondition) {
+        throw new Error(`${path}: "previousCall" cannot also define "field" or "operator"`);
+      }
+
+      return this.validateAndNormalizePreviousCall(rawCondition.previousCall, path);
+    }
+
+    if ('taint' in rawCondition) {
+      if ('field' in rawCondition || 'operator' in rawCondition) {
+        throw new Error(`${path}: "taint" cannot also define "field" or "operator"`);
+      }
+
+      return this.validateAndNormalizeTaint(rawCondition.taint, path);
+    }
+
+    if ('schedule' in rawCondition || 'window' in rawCondition) {
+      const key = 'schedule' in rawCondition ? 'schedule' : 'window';
+      if ('field' in rawCondition || 'operator' in rawCondition) {
+        throw new Error(`${path}: "${key}" cannot also define "field" or "operator"`);
+      }
+
+      if (key === 'schedule') {
+        return {
+          schedule: this.validateAndNormalizeSchedule(rawCondition.schedule, path, 'schedule.'),
+        };
+      }
+
+      if (!rawCondition.window || typeof rawCondition.window !== 'string') {
+        throw new Error(`${path}: Invalid "window". Must be the name of a window`);
+      }
+      return { window: rawCondition.window };
+    }
+
+    // A named list from the policy's `lists` stands in for the value of an `in` condition
+    if ('list' in rawCondition) {
+      if ('value' in rawCondition) {
+        throw new Error(`${path}: Condition cannot define both "value" and "list"`);
+      }
+      if (rawCondition.operator !== 'in') {
+        throw new Error(`${path}: "list" requires operator "in"`);
+      }
+
+      const list = typeof rawCondition.list === 'string' ? lists[rawCondition.list] : undefined;
+      if (!list) {
+        throw new Error(`${path}: Unknown list "${rawCondition.list}"`);
+      }
+
+      const { list: _list, ...condition } = rawCondition;
+      rawCondition = { ...condition, value: list };
+    }
+
     if (!rawCondition.field || typeof rawCondition.field !== 'string') {
-      throw new Error('Missing or invalid "field" property');
+      throw new Error(`${path}: Missing or invalid "field" property`);
     }
 
     if (!rawCondition.operator || !this.isValidOperator(rawCondition.operator)) {
       throw new Error(
-        'Missing or invalid "operator" property. Must be one of: equals, contains, startsWith, endsWith, regex, in, gt, lt, gte, lte',
+        `${path}: Missing or invalid "operator" property. Must be one of: equals, contains, startsWith, endsWith, regex, in, gt, lt, gte, lte`,
       );
     }
 
     if (rawCondition.value === undefined) {
-      throw new Error('Missing "value" property');
+      throw new Error(`${path}: Missing "value" property`);
     }
 
     // Additional validation for specific operators
     if (rawCondition.operator === 'in' && !Array.isArray(rawCondition.value)) {
-      throw new Error('Operator "in" requires an array value');
+      throw new Error(`${path}: Operator "in" requires an array value`);
+    }
+
+    if (rawCondition.operator === 'regex') {
+      if (typeof rawCondition.value !== 'string') {
+        throw new Error(`${path}: Operator "regex" requires a string pattern`);
+      }
+
+      try {
+        new RegExp(rawCondition.value);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`${path}: Invalid regex pattern: ${message}`);
+      }
     }
 
     if (['gt', 'lt', 'gte', 'lte'].includes(rawCondition.operator)) {
@@ -182,7 +929,7 @@ export class PolicyLoader {
           ? rawCondition.value
           : parseFloat(String(rawCondition.value));
       if (isNaN(numValue)) {
-        throw new Error(`Operator "${rawCondition.operator}" requires a numeric value`);
+        throw new Error(`${path}: Operator "${rawCondition.operator}" requires a numeric value`);
       }
     }
 
@@ -193,6 +940,186 @@ export class PolicyLoader {
     };
   }
 
+  /**
+   * Validate and normalize a previousCall condition
+   */
+  private validateAndNormalizePreviousCall(rawPreviousCall: any, path: string): PolicyCondition {
+    if (!rawPreviousCall || typeof rawPreviousCall !== 'object' || Array.isArray(rawPreviousCall)) {
+      throw new Error(`${path}: "previousCall" must be an object`);
+    }
+
+    const { toolName, status, within } = rawPreviousCall;
+
+    if (!toolName || typeof toolName !== 'string') {
+      throw new Error(`${path}: Missing or invalid "previousCall.toolName"`);
+    }
+
+    if (status !== undefined && !['succeeded', 'failed'].includes(status)) {
+      throw new Error(`${path}: Invalid "previousCall.status". Must be succeeded or failed`);
+    }
+
+    if (within !== undefined && (!Number.isInteger(within) || within <= 0)) {
+      throw new Error(
+        `${path}: Invalid "previousCall.within". Must be a positive number of milliseconds`,
+      );
+    }
+
+    return {
+      previousCall: {
+        toolName,
+        ...(status !== undefined && { status }),
+        ...(within !== undefined && { within }),
+      },
+    };
+  }
+
+  /**
+   * Validate and normalize a taint condition. An empty object matches taint from any source
+   * anywhere in the parameters.
+   */
+  private validateAndNormalizeTaint(rawTaint: any, path: string): PolicyCondition {
+    if (!rawTaint || typeof rawTaint !== 'object' || Array.isArray(rawTaint)) {
+      throw new Error(`${path}: "taint" must be an object`);
+    }
+
+    const { field, label } = rawTaint;
+
+    if (
+      field !== undefined &&
+      (typeof field !== 'string' ||
+        (field !== PARAMETERS_FIELD && !field.startsWith(`${PARAMETERS_FIELD}.`)))
+    ) {
+      throw new Error(
+        `${path}: Invalid "taint.field". Must be ${PARAMETERS_FIELD} or a path under ${PARAMETERS_FIELD}`,
+      );
+    }
+
+    if (label !== undefined && (!label || typeof label !== 'string')) {
+      throw new Error(`${path}: Invalid "taint.label". Must be a non-empty string`);
+    }
+
+    return {
+      taint: {
+        ...(field !== undefined && { field }),
+        ...(label !== undefined && { label }),
+      },
+    };
+  }
+
+  /**
+   * Validate and normalize a schedule. `key` prefixes the property names in error messages.
+   */
+  private validateAndNormalizeSchedule(rawSchedule: any, path: string, key: string): Schedule {
+    if (!rawSchedule || typeof rawSchedule !== 'object' || Array.isArray(rawSchedule)) {
+      throw new Error(`${path}: ${key ? `"${key.slice(0, -1)}"` : 'Schedule'} must be an object`);
+    }
+
+    const { timezone, days, hours, dates } = rawSchedule;
+
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+      throw new Error(
+        `${path}: Invalid "${key}timezone". Must be an IANA time zone such as Europe/Berlin`,
+      );
+    }
+
+    if (
+      days !== undefined &&
+      (!Array.isArray(days) || days.length === 0 || !days.every(day => DAYS_OF_WEEK.includes(day)))
+    ) {
+      throw new Error(
+        `${path}: Invalid "${key}days". Must be a non-empty list of ${DAYS_OF_WEEK.join(', ')}`,
+      );
+    }
+
+    if (
+      hours !== undefined &&
+      (!hours ||
+        !this.isTimeOfDay(hours.from) ||
+        !this.isTimeOfDay(hours.to) ||
+        hours.from === hours.to)
+    ) {
+      throw new Error(
+        `${path}: Invalid "${key}hours". Must have different "from" and "to" times as HH:MM`,
+      );
+    }
+
+    let normalizedDates: { from?: string; to?: string } | undefined;
+    if (dates !== undefined) {
+      const from = dates?.from === undefined ? undefined : this.normalizeDateBound(dates.from);
+      const to = dates?.to === undefined ? undefined : this.normalizeDateBound(dates.to);
+      if (!dates || (from === undefined && to === undefined) || from === null || to === null) {
+        throw new Error(
+          `${path}: Invalid "${key}dates". Must have a "from" and/or "to" date as YYYY-MM-DD or an ISO timestamp with an offset`,
+        );
+      }
+      normalizedDates = {
+        ...(from !== undefined && { from }),
+        ...(to !== undefined && { to }),
+      };
+    }
+
+    return {
+      ...(timezone !== undefined && { timezone }),
+      ...(days !== undefined && { days }),
+      ...(hours !== undefined && { hours: { from: hours.from, to: hours.to } }),
+      ...(normalizedDates && { dates: normalizedDates }),
+    };
+  }
+
+  /**
+   * Check that every window condition names a window the policy defines
+   */
+  private checkWindowReferences(conditions: PolicyCondition[], windowNames: Set<string>): void {
+    for (const condition of conditions) {
+      if ('anyOf' in condition) {
+        this.checkWindowReferences(condition.anyOf, windowNames);
+      } else if ('allOf' in condition) {
+        this.checkWindowReferences(condition.allOf, windowNames);
+      } else if ('not' in condition) {
+        this.checkWindowReferences([condition.not], windowNames);
+      } else if ('window' in condition && !windowNames.has(condition.window)) {
+        throw new Error(`Unknown window "${condition.window}"`);
+      }
+    }
+  }
+
+  /**
+   * Validate and normalize an anyOf/allOf/not condition group
+   */
+  private validateAndNormalizeConditionGroup(
+    rawCondition: any,
+    groupKey: string,
+    path: string,
+    lists: Record<string, unknown[]>,
+  ): PolicyCondition {
+    if (groupKey === 'not') {
+      return { not: this.validateAndNormalizeCondition(rawCondition.not, `${path}.not`, lists) };
+    }
+
+    const children = rawCondition[groupKey];
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new Error(`${path}: "${groupKey}" must be a non-empty array of conditions`);
+    }
+
+    const errors: string[] = [];
+    const conditions: PolicyCondition[] = [];
+    for (let i = 0; i < children.length; i++) {
+      try {
+        conditions.push(
+          this.validateAndNormalizeCondition(children[i], `${path}.${groupKey}[${i}]`, lists),
+        );
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    return groupKey === 'anyOf' ? { anyOf: conditions } : { allOf: conditions };
+  }
+
   /**
    * Validate webhook configuration
    */
@@ -221,7 +1148,7 @@ export class PolicyLoader {
    * Check if a string is a valid policy decision
    */
   private isValidPolicyDecision(value: string): boolean {
-    return ['ALLOW', 'BLOCK', 'REQUIRE_HUMAN_APPROVAL'].includes(value);
+    return ['ALLOW', 'BLOCK', 'REQUIRE_HUMAN_APPROVAL', 'MODIFY'].includes(value);
   }
 
   /**
@@ -242,6 +1169,42 @@ export class PolicyLoader {
     ].includes(value);
   }
 
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Check if a value is a time of day as HH:MM
+   */
+  private isTimeOfDay(value: unknown): value is string {
+    return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  }
+
+  /**
+   * Normalize a date bound to "YYYY-MM-DD" or an ISO timestamp, or null if it is neither.
+   * YAML parses unquoted dates and timestamps into Date objects, which come back in UTC;
+   * those written as a date alone stay dates, so quoting makes no difference.
+   */
+  private normalizeDateBound(value: unknown): string | null {
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) {
+        return null;
+      }
+      const iso = value.toISOString();
+      return /^\d{4}-\d{2}-\d{2}$/.test(timestampSources.get(value) ?? '') ? iso.slice(0, 10) : iso;
+    }
+
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return isNaN(Date.parse(value)) ? null : value;
+    }
+
+    return /(Z|[+-]\d{2}:\d{2})$/.test(value) && !isNaN(Date.parse(value)) ? value : null;
+  }
+
   /**
    * Generate a sample policy file content
    */
@@ -316,6 +1279,12 @@ rules:
       - field: "toolCall.toolName"
         operator: "regex"
         value: "(deploy|restart|scale)"
+      - schedule:
+          timezone: "America/New_York"
+          days: [mon, tue, wed, thu, fri]
+          hours:
+            from: "09:00"
+            to: "17:00"
 `;
   }
 }
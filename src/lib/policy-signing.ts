@@ -0,0 +1,135 @@
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+  timingSafeEqual,
+  verify,
+} from 'crypto';
+
+import type {
+  PolicySignature,
+  PolicySigningAlgorithm,
+  PolicySigningKey,
+  PolicyVerificationKey,
+} from '../types.js';
+import { AgentGuardError } from './errors.js';
+
+export const SIGNATURE_EXTENSION = '.sig';
+
+/**
+ * Generate a key to sign policy files with and the matching key to verify them. For HMAC
+ * both hold the same random secret.
+ */
+export function generatePolicyKeys(algorithm: PolicySigningAlgorithm): {
+  signingKey: PolicySigningKey;
+  verificationKey: PolicyVerificationKey;
+} {
+  if (algorithm === 'hmac-sha256') {
+    const secret = randomBytes(32).toString('base64url');
+    return { signingKey: { algorithm, secret }, verificationKey: { algorithm, secret } };
+  }
+
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519', {
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  return {
+    signingKey: { algorithm, privateKey },
+    verificationKey: { algorithm, publicKey },
+  };
+}
+
+/**
+ * Sign the exact bytes of a policy file
+ */
+export function signPolicy(content: Buffer | string, key: PolicySigningKey): PolicySignature {
+  const data = Buffer.from(content);
+
+  if (key.algorithm === 'hmac-sha256') {
+    return { algorithm: key.algorithm, signature: hmac(data, key.secret).toString('base64') };
+  }
+
+  return {
+    algorithm: key.algorithm,
+    signature: sign(null, data, createPrivateKey(key.privateKey)).toString('base64'),
+  };
+}
+
+/**
+ * Check a signature over the exact bytes of a policy file. Signatures made with another
+ * algorithm than the key's never verify.
+ */
+export function verifyPolicySignature(
+  content: Buffer | string,
+  signature: PolicySignature,
+  key: PolicyVerificationKey,
+): boolean {
+  if (signature.algorithm !== key.algorithm || typeof signature.signature !== 'string') {
+    return false;
+  }
+
+  const data = Buffer.from(content);
+  const actual = Buffer.from(signature.signature, 'base64');
+
+  if (key.algorithm === 'hmac-sha256') {
+    const expected = hmac(data, key.secret);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  const publicKey = createPublicKey(key.publicKey);
+  try {
+    return verify(null, data, publicKey, actual);
+  } catch {
+    // Signatures of the wrong length are rejected by the runtime rather than failing to verify
+    return false;
+  }
+}
+
+/**
+ * Read a key file: a PEM private key is an Ed25519 signing key, anything else an HMAC secret
+ */
+export function parseSigningKey(text: string): PolicySigningKey {
+  const content = text.trim();
+  if (content.includes('PUBLIC KEY-----')) {
+    throw new AgentGuardError(
+      'Policies are signed with a private key, not a public key',
+      'INVALID_SIGNING_KEY',
+    );
+  }
+  return content.includes('PRIVATE KEY-----')
+    ? { algorithm: 'ed25519', privateKey: content }
+    : { algorithm: 'hmac-sha256', secret: requireSecret(content) };
+}
+
+/**
+ * Read a key file: a PEM public key is an Ed25519 verification key, anything else an HMAC secret
+ */
+export function parseVerificationKey(text: string): PolicyVerificationKey {
+  const content = text.trim();
+  if (content.includes('PRIVATE KEY-----')) {
+    throw new AgentGuardError(
+      'Policies are verified with a public key; keep the private key with whoever signs them',
+      'INVALID_SIGNING_KEY',
+    );
+  }
+  return content.includes('PUBLIC KEY-----')
+    ? { algorithm: 'ed25519', publicKey: content }
+    : { algorithm: 'hmac-sha256', secret: requireSecret(content) };
+}
+
+function requireSecret(secret: string): string {
+  if (secret.length < 32) {
+    throw new AgentGuardError(
+      'Policy signing secret must be at least 32 characters',
+      'INVALID_SIGNING_KEY',
+    );
+  }
+  return secret;
+}
+
+function hmac(data: Buffer, secret: string): Buffer {
+  return createHmac('sha256', requireSecret(secret)).update(data).digest();
+}
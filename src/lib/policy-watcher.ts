@@ -0,0 +1,159 @@
+import { EventEmitter } from 'events';
+import { watch, type FSWatcher } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+import type { Policy, PolicyReloadEvent, PolicyReloadFailure } from '../types.js';
+import type { Logger } from './logger.js';
+
+/**
+ * Watches policy files and reloads them once changes settle.
+ *
+ * Directories are watched rather than files, so editors that save by replacing a file are
+ * still seen. Changes during a reload trigger one more reload once it finishes. Emits
+ * "reload" with a PolicyReloadEvent and "reloadFailed" with a PolicyReloadFailure.
+ */
+export class PolicyWatcher extends EventEmitter {
+  // One watcher per directory holding a watched file
+  private readonly watchers = new Map<string, FSWatcher>();
+  private files = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private reloading = false;
+  private changedWhileReloading = false;
+  private closed = false;
+
+  constructor(
+    private readonly reload: () => Promise<{ policies: Policy[]; files: string[] }>,
+    files: string[],
+    private readonly debounce: number,
+    private readonly logger: Logger,
+  ) {
+    super();
+    this.watchFiles(files);
+  }
+
+  override on(event: 'reload', listener: (event: PolicyReloadEvent) => void): this;
+  override on(event: 'reloadFailed', listener: (failure: PolicyReloadFailure) => void): this;
+  override on(event: string | symbol, listener: (...args: any[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Get the files being watched
+   */
+  getFiles(): string[] {
+    return [...this.files];
+  }
+
+  /**
+   * Stop watching. A reload already under way still completes but emits nothing.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Watch a new set of files, e.g. after a reload changed what the policies include
+   */
+  private watchFiles(files: string[]): void {
+    this.files = new Set(files.map(file => resolve(file)));
+    const directories = new Set([...this.files].map(file => dirname(file)));
+
+    for (const [directory, watcher] of this.watchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (this.watchers.has(directory)) {
+        continue;
+      }
+
+      const watcher = watch(directory, (_eventType, filename) => {
+        // Some platforms do not report the file name, so any change in the directory counts
+        if (!filename || this.files.has(join(directory, filename.toString()))) {
+          this.scheduleReload();
+        }
+      });
+      watcher.on('error', error => {
+        this.logger.error(`Policy watcher failed for ${directory}`, error);
+      });
+      this.watchers.set(directory, watcher);
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.closed) {
+      return;
+    }
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      // Reload failures are emitted, so only a throwing listener lands here
+      this.runReload().catch(error => this.logger.error('Policy reload listener failed', error));
+    }, this.debounce);
+  }
+
+  private async runReload(): Promise<void> {
+    if (this.reloading) {
+      this.changedWhileReloading = true;
+      return;
+    }
+
+    this.reloading = true;
+    try {
+      do {
+        this.changedWhileReloading = false;
+        await this.reloadOnce();
+      } while (this.changedWhileReloading && !this.closed);
+    } finally {
+      this.reloading = false;
+    }
+  }
+
+  private async reloadOnce(): Promise<void> {
+    let loaded: { policies: Policy[]; files: string[] };
+    try {
+      loaded = await this.reload();
+    } catch (error) {
+      if (this.closed) {
+        return;
+      }
+      this.logger.error('Policy reload failed; keeping the last good policy', error);
+      const failure: PolicyReloadFailure = {
+        error: error instanceof Error ? error : new Error(String(error)),
+        files: this.getFiles(),
+        timestamp: new Date().toISOString(),
+      };
+      this.emit('reloadFailed', failure);
+      return;
+    }
+
+    if (this.closed) {
+      return;
+    }
+    this.watchFiles(loaded.files);
+    const event: PolicyReloadEvent = {
+      policies: loaded.policies,
+      files: this.getFiles(),
+      timestamp: new Date().toISOString(),
+    };
+    this.emit('reload', event);
+  }
+}
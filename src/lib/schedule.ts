@@ -0,0 +1,99 @@
+import type { DayOfWeek, LocalTime, Schedule } from '../types.js';
+
+export const DAYS_OF_WEEK: readonly DayOfWeek[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Formatters are costly to create, so one is kept per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check if a time zone is known to the runtime's IANA database
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read an instant as the calendar date, time of day and weekday in a time zone
+ */
+export function getLocalTime(timestamp: string, timezone = DEFAULT_TIMEZONE): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    day: parts.weekday!.toLowerCase() as DayOfWeek,
+    timezone,
+  };
+}
+
+/**
+ * Check if an instant falls within a schedule. Every part the schedule sets must match.
+ */
+export function matchesSchedule(schedule: Schedule, timestamp: string): boolean {
+  const local = getLocalTime(timestamp, schedule.timezone);
+
+  if (schedule.days && !schedule.days.includes(local.day)) {
+    return false;
+  }
+
+  if (schedule.hours) {
+    const { from, to } = schedule.hours;
+    // A range whose end is before its start runs past midnight (e.g. 22:00 to 06:00)
+    const inHours =
+      from <= to ? local.time >= from && local.time < to : local.time >= from || local.time < to;
+    if (!inHours) {
+      return false;
+    }
+  }
+
+  if (schedule.dates) {
+    const { from, to } = schedule.dates;
+    if (from !== undefined && compareDate(timestamp, local, from) < 0) {
+      return false;
+    }
+    if (to !== undefined && compareDate(timestamp, local, to) > 0) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Compare an instant with a date bound: calendar dates are compared in the schedule's time
+ * zone, full timestamps as instants
+ */
+function compareDate(timestamp: string, local: LocalTime, bound: string): number {
+  if (bound.length === 10) {
+    return local.date < bound ? -1 : local.date > bound ? 1 : 0;
+  }
+  return Math.sign(Date.parse(timestamp) - Date.parse(bound));
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
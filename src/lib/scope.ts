@@ -0,0 +1,78 @@
+import type { PolicyScope, ToolCall } from '../types.js';
+
+export const SCOPE_KEYS: readonly (keyof PolicyScope)[] = ['agents', 'sessions', 'roles', 'tags'];
+
+// Patterns are compiled on first use and shared by every policy
+const patterns = new Map<string, RegExp>();
+
+/**
+ * Check if a tool call falls within a scope. Every part the scope sets must match: agents
+ * and sessions are id patterns where `*` matches any run of characters, and roles and tags
+ * match when the call's metadata lists any of them.
+ */
+export function matchesScope(scope: PolicyScope, toolCall: ToolCall): boolean {
+  if (scope.agents && !matchesAnyPattern(scope.agents, toolCall.agentId)) {
+    return false;
+  }
+
+  if (scope.sessions && !matchesAnyPattern(scope.sessions, toolCall.sessionId)) {
+    return false;
+  }
+
+  if (scope.roles) {
+    const roles = getRoles(toolCall);
+    if (!scope.roles.some(role => roles.includes(role))) {
+      return false;
+    }
+  }
+
+  if (scope.tags) {
+    const tags = toStrings(toolCall.metadata?.tags);
+    if (!scope.tags.some(tag => tags.includes(tag))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Get the tool call fields a scope reads, so cached decisions are keyed on them
+ */
+export function getScopeFields(scope: PolicyScope): string[] {
+  return [
+    ...(scope.agents ? ['toolCall.agentId'] : []),
+    ...(scope.sessions ? ['toolCall.sessionId'] : []),
+    ...(scope.roles ? ['toolCall.metadata.role', 'toolCall.metadata.roles'] : []),
+    ...(scope.tags ? ['toolCall.metadata.tags'] : []),
+  ];
+}
+
+/**
+ * A call's roles come from `metadata.roles`, a list, and `metadata.role`, a single role
+ */
+function getRoles(toolCall: ToolCall): string[] {
+  return [...toStrings(toolCall.metadata?.roles), ...toStrings(toolCall.metadata?.role)];
+}
+
+function toStrings(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((item): item is string => typeof item === 'string');
+}
+
+function matchesAnyPattern(scopePatterns: string[], id: string | undefined): boolean {
+  return id !== undefined && scopePatterns.some(pattern => getPattern(pattern).test(id));
+}
+
+function getPattern(pattern: string): RegExp {
+  let regex = patterns.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    regex = new RegExp(`^${source}$`);
+    patterns.set(pattern, regex);
+  }
+  return regex;
+}
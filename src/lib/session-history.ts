@@ -0,0 +1,66 @@
+import type { SessionCall, SessionHistoryConfig } from '../types.js';
+
+/**
+ * Per-session record of the protected tool calls that ran, queried by previousCall conditions.
+ *
+ * Each session keeps its most recent `maxCallsPerSession` calls, and calls older than `ttl`
+ * are dropped along with sessions that have none left. History is kept in process memory.
+ */
+export class SessionHistory {
+  // Ordered by last activity, so idle sessions are always at the front
+  private readonly sessions = new Map<string, SessionCall[]>();
+
+  constructor(
+    private readonly config: Required<SessionHistoryConfig>,
+    // Time that call ages are measured at
+    private readonly clock: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Append a call to a session's history
+   */
+  record(sessionId: string, call: SessionCall): void {
+    const calls = this.get(sessionId).concat(call).slice(-this.config.maxCallsPerSession);
+
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, calls);
+    this.pruneIdleSessions();
+  }
+
+  /**
+   * Get a session's retained calls, oldest first
+   */
+  get(sessionId: string): readonly SessionCall[] {
+    const calls = this.sessions.get(sessionId);
+    if (!calls) {
+      return [];
+    }
+
+    const cutoff = this.clock().getTime() - this.config.ttl;
+    const firstKept = calls.findIndex(call => Date.parse(call.timestamp) >= cutoff);
+    return firstKept === -1 ? [] : calls.slice(firstKept);
+  }
+
+  /**
+   * Forget one session's history, or every session's
+   */
+  clear(sessionId?: string): void {
+    if (sessionId === undefined) {
+      this.sessions.clear();
+    } else {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  private pruneIdleSessions(): void {
+    const cutoff = this.clock().getTime() - this.config.ttl;
+
+    for (const [sessionId, calls] of this.sessions) {
+      const lastCall = calls[calls.length - 1];
+      if (lastCall && Date.parse(lastCall.timestamp) >= cutoff) {
+        return;
+      }
+      this.sessions.delete(sessionId);
+    }
+  }
+}
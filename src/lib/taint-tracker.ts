@@ -0,0 +1,204 @@
+import type { TaintMatch } from '../types.js';
+
+// Multiplier of the polynomial rolling hash over UTF-16 code units
+const HASH_BASE = 31;
+
+type TaintSource = {
+  readonly label: string;
+  readonly text: string;
+  readonly timestamp: number;
+};
+
+type SessionTaint = {
+  sources: TaintSource[];
+  // Hash of every run of minLength characters in the sources' text
+  hashes: Set<number>;
+};
+
+/**
+ * Per-session record of text returned by tools whose output is untrusted, used to find that
+ * text again in the parameters of later calls.
+ *
+ * Every run of `minLength` characters of a tainted string is indexed by its rolling hash, so
+ * checking a parameter takes time linear in its length; hash hits are confirmed against the
+ * stored text. Outputs older than `ttl` are dropped, along with sessions that have none left.
+ */
+export class TaintTracker {
+  // Ordered by last activity, so idle sessions are always at the front
+  private readonly sessions = new Map<string, SessionTaint>();
+
+  constructor(
+    private readonly config: { readonly minLength: number; readonly ttl: number },
+    // Time that outputs are stamped and aged at
+    private readonly clock: () => Date = () => new Date(),
+  ) {}
+
+  /**
+   * Mark every string in a tool's output as tainted for the rest of the session.
+   * Strings shorter than minLength are ignored.
+   */
+  add(sessionId: string, value: unknown, label: string): void {
+    const texts = collectStrings(value, '')
+      .map(([, text]) => text)
+      .filter(text => text.length >= this.config.minLength);
+    if (texts.length === 0) {
+      return;
+    }
+
+    const session = this.getSession(sessionId) ?? { sources: [], hashes: new Set<number>() };
+    const timestamp = this.clock().getTime();
+    for (const text of texts) {
+      session.sources.push({ label, text, timestamp });
+      for (const [hash] of windowHashes(text, this.config.minLength)) {
+        session.hashes.add(hash);
+      }
+    }
+
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, session);
+    this.pruneIdleSessions();
+  }
+
+  /**
+   * Find the strings nested in a value that contain tainted text, reporting each field once
+   * per label. Fields are reported as paths under `root`.
+   */
+  find(sessionId: string, value: unknown, root: string): TaintMatch[] {
+    const session = this.getSession(sessionId);
+    if (!session) {
+      return [];
+    }
+
+    const { minLength } = this.config;
+    const sourceLabels = new Set(session.sources.map(source => source.label));
+    const matches: TaintMatch[] = [];
+
+    for (const [field, text] of collectStrings(value, root)) {
+      const labels = new Set<string>();
+
+      for (const [hash, start] of windowHashes(text, minLength)) {
+        // Stop once the field is known to be tainted by every label
+        if (labels.size === sourceLabels.size) {
+          break;
+        }
+        if (!session.hashes.has(hash)) {
+          continue;
+        }
+
+        const fragment = text.slice(start, start + minLength);
+        for (const source of session.sources) {
+          if (!labels.has(source.label) && source.text.includes(fragment)) {
+            labels.add(source.label);
+            matches.push({ field, label: source.label, fragment });
+          }
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Forget one session's tainted outputs, or every session's
+   */
+  clear(sessionId?: string): void {
+    if (sessionId === undefined) {
+      this.sessions.clear();
+    } else {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  /**
+   * Get a session's taint, dropping expired outputs and re-indexing what is left
+   */
+  private getSession(sessionId: string): SessionTaint | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+
+    const cutoff = this.clock().getTime() - this.config.ttl;
+    const sources = session.sources.filter(source => source.timestamp >= cutoff);
+    if (sources.length === session.sources.length) {
+      return session;
+    }
+
+    if (sources.length === 0) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+
+    session.sources = sources;
+    session.hashes = new Set(
+      sources.flatMap(source =>
+        Array.from(windowHashes(source.text, this.config.minLength), ([hash]) => hash),
+      ),
+    );
+    return session;
+  }
+
+  private pruneIdleSessions(): void {
+    const cutoff = this.clock().getTime() - this.config.ttl;
+
+    for (const [sessionId, session] of this.sessions) {
+      const latest = session.sources[session.sources.length - 1];
+      if (latest && latest.timestamp >= cutoff) {
+        return;
+      }
+      this.sessions.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Collect every string nested in a value with its dot-separated path. Circular references
+ * are not followed.
+ */
+function collectStrings(
+  value: unknown,
+  path: string,
+  seen = new WeakSet<object>(),
+): Array<[string, string]> {
+  if (typeof value === 'string') {
+    return [[path, value]];
+  }
+
+  if (value === null || typeof value !== 'object' || seen.has(value)) {
+    return [];
+  }
+
+  seen.add(value);
+  const strings = Object.entries(value).flatMap(([key, item]) =>
+    collectStrings(item, path ? `${path}.${key}` : key, seen),
+  );
+  seen.delete(value);
+  return strings;
+}
+
+/**
+ * Yield the rolling hash and start index of every run of `size` characters in a string
+ */
+function* windowHashes(text: string, size: number): Generator<[number, number]> {
+  if (text.length < size) {
+    return;
+  }
+
+  // Weight of the character leaving the window
+  let power = 1;
+  for (let i = 1; i < size; i++) {
+    power = Math.imul(power, HASH_BASE);
+  }
+
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (i >= size) {
+      hash = (hash - Math.imul(text.charCodeAt(i - size), power)) | 0;
+    }
+    hash = (Math.imul(hash, HASH_BASE) + text.charCodeAt(i)) | 0;
+
+    if (i >= size - 1) {
+      yield [hash, i - size + 1];
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { createInterface } from 'readline/promises';
+import { inspect } from 'util';
+
+import type { ApprovalRequest, ApprovalResponse, Approver } from '../types.js';
+
+/**
+ * Asks for approvals in the terminal, for local development without an approval service.
+ * Requests are shown one at a time with the tool call and the rule that required approval;
+ * answering `y` approves, anything else denies, and text after the answer is the reason.
+ */
+export class TerminalApprover implements Approver {
+  // Prompts are chained so that concurrent requests are asked about in turn
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly options: {
+      input?: NodeJS.ReadableStream;
+      output?: NodeJS.WritableStream;
+      // Recorded as approvedBy on the responses (default: "terminal")
+      approvedBy?: string;
+    } = {},
+  ) {}
+
+  async requestApproval(
+    request: ApprovalRequest,
+    respond: (response: Omit<ApprovalResponse, 'requestId'>) => Promise<void>,
+  ): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.prompt(request, respond))
+      .catch(error => this.denyAfterFailure(request, respond, error));
+  }
+
+  /**
+   * Deny a request that could not be asked about, so that neither it nor the queue hangs
+   */
+  private async denyAfterFailure(
+    request: ApprovalRequest,
+    respond: (response: Omit<ApprovalResponse, 'requestId'>) => Promise<void>,
+    error: unknown,
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      (this.options.output ?? process.stdout).write(
+        `\n⚠️  Could not ask about request ${request.id}, denying it: ${message}\n`,
+      );
+    } catch {
+      // The output itself may be what failed
+    }
+
+    try {
+      await respond({
+        decision: 'DENY',
+        approvedBy: this.options.approvedBy ?? 'terminal',
+        reason: `Terminal approver failed: ${message}`,
+      });
+    } catch {
+      // The request may already have timed out
+    }
+  }
+
+  private async prompt(
+    request: ApprovalRequest,
+    respond: (response: Omit<ApprovalResponse, 'requestId'>) => Promise<void>,
+  ): Promise<void> {
+    const output = this.options.output ?? process.stdout;
+    const { toolCall, metadata } = request;
+
+    const lines = [
+      '',
+      `⏳ Approval required (${request.id})`,
+      `  Tool:       ${toolCall.toolName}`,
+      ...(toolCall.agentId ? [`  Agent:      ${toolCall.agentId}`] : []),
+      ...(typeof metadata?.rule === 'string' ? [`  Rule:       ${metadata.rule}`] : []),
+      ...(typeof metadata?.policy === 'string' ? [`  Policy:     ${metadata.policy}`] : []),
+      ...(typeof metadata?.reason === 'string' ? [`  Reason:     ${metadata.reason}`] : []),
+      `  Parameters: ${formatParameters(toolCall.parameters).replace(/\n/g, '\n  ')}`,
+      '',
+    ];
+    output.write(lines.join('\n'));
+
+    const readline = createInterface({
+      input: this.options.input ?? process.stdin,
+      output,
+      terminal: false,
+    });
+    let answer: string;
+    try {
+      answer = await readline.question('Approve? [y/N] (optionally followed by a reason) ');
+    } catch {
+      output.write(`\n⚠️  No answer for request ${request.id}; the input has closed\n`);
+      return;
+    } finally {
+      readline.close();
+    }
+
+    const [choice = '', ...reason] = answer.trim().split(/\s+/);
+    const approved = ['y', 'yes'].includes(choice.toLowerCase());
+
+    try {
+      await respond({
+        decision: approved ? 'APPROVE' : 'DENY',
+        approvedBy: this.options.approvedBy ?? 'terminal',
+        ...(reason.length > 0 && { reason: reason.join(' ') }),
+      });
+      output.write(approved ? '✅ Approved\n' : '❌ Denied\n');
+    } catch (error) {
+      // Most likely the request timed out while waiting for an answer
+      output.write(
+        `⚠️  Could not settle request ${request.id}: ${error instanceof Error ? error.message : error}\n`,
+      );
+    }
+  }
+}
+
+/**
+ * Show parameters as JSON, falling back to inspect for values JSON cannot represent, such as
+ * circular references
+ */
+function formatParameters(parameters: Record<string, unknown>): string {
+  try {
+    return JSON.stringify(
+      parameters,
+      (_key, value) => (typeof value === 'bigint' ? `${value}n` : value),
+      2,
+    );
+  } catch {
+    return inspect(parameters, { depth: 4 });
+  }
+}
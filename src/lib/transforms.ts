@@ -0,0 +1,122 @@
+import type { RuleTransform } from '../types.js';
+
+// Field roots transforms are allowed to rewrite in each evaluation phase
+export const PARAMETERS_FIELD = 'toolCall.parameters';
+export const RESULT_FIELD = 'result';
+
+const DEFAULT_REDACTION = '[REDACTED]';
+
+// Returned by an updater to delete the field it was given
+const REMOVE = Symbol('remove');
+
+type Updater = (value: unknown, present: boolean) => unknown;
+
+/**
+ * Apply a MODIFY rule's transforms in order to the value found at `root`
+ * (the tool call's parameters or the tool's result), returning the new value.
+ * Only the objects along each transformed path are copied; the input is never mutated.
+ */
+export function applyTransforms(
+  value: unknown,
+  root: string,
+  transforms: readonly RuleTransform[],
+): unknown {
+  return transforms.reduce((current, transform) => {
+    const path = transform.field === root ? [] : transform.field.slice(root.length + 1).split('.');
+    return updateAtPath(current, path, createUpdater(transform), transform.op === 'set');
+  }, value);
+}
+
+function createUpdater(transform: RuleTransform): Updater {
+  switch (transform.op) {
+    case 'remove':
+      return () => REMOVE;
+
+    case 'set':
+      return () => transform.value;
+
+    case 'clamp':
+      return value =>
+        typeof value === 'number'
+          ? Math.min(Math.max(value, transform.min ?? -Infinity), transform.max ?? Infinity)
+          : value;
+
+    case 'truncate':
+      return value =>
+        (typeof value === 'string' || Array.isArray(value)) && value.length > transform.max
+          ? value.slice(0, transform.max)
+          : value;
+
+    case 'redact': {
+      const replacement = transform.replacement ?? DEFAULT_REDACTION;
+      if (transform.pattern === undefined) {
+        return (value, present) => (present ? replacement : value);
+      }
+      const pattern = new RegExp(transform.pattern, 'g');
+      return value => redactStrings(value, pattern, replacement);
+    }
+  }
+}
+
+/**
+ * Replace pattern matches in every string nested in a value
+ */
+function redactStrings(value: unknown, pattern: RegExp, replacement: string): unknown {
+  if (typeof value === 'string') {
+    return value.replace(pattern, replacement);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactStrings(item, pattern, replacement));
+  }
+
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactStrings(item, pattern, replacement)]),
+    );
+  }
+
+  return value;
+}
+
+function updateAtPath(
+  target: unknown,
+  path: string[],
+  updater: Updater,
+  createMissing: boolean,
+): unknown {
+  const [key, ...rest] = path;
+  if (key === undefined) {
+    const updated = updater(target, true);
+    return updated === REMOVE ? undefined : updated;
+  }
+
+  if (!isRecord(target)) {
+    // Missing intermediate objects are only created when setting a value
+    if (!createMissing) {
+      return target;
+    }
+    target = {};
+  }
+
+  const record = target as Record<string, unknown>;
+  const current = record[key];
+  const updated =
+    rest.length === 0
+      ? updater(current, key in record)
+      : updateAtPath(current, rest, updater, createMissing);
+
+  if (updated === REMOVE) {
+    if (!(key in record)) {
+      return record;
+    }
+    const { [key]: _removed, ...remaining } = record;
+    return remaining;
+  }
+
+  return Object.is(updated, current) ? record : { ...record, [key]: updated };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -1,30 +1,121 @@
-import { createHmac, randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+import {
+  createHmac,
+  randomBytes,
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+} from 'crypto';
+import type { KeyObject } from 'crypto';
 
-import type { WebhookSecurityConfig } from '../types.js';
+import type {
+  WebhookSecurityConfig,
+  WebhookSigningAlgorithm,
+  WebhookSigningKey,
+  WebhookVerificationKey,
+} from '../types.js';
 
+/**
+ * Signs, verifies and encrypts webhook messages. Messages are signed with HMAC-SHA256 over a
+ * shared secret, or with a signing key that names itself in the key ID header; signatures
+ * naming a key ID are checked against the matching key in the verification keyring.
+ */
 export class WebhookSecurity {
   private readonly algorithm = 'aes-256-gcm';
   private readonly signatureHeader = 'x-agentguard-signature';
   private readonly timestampHeader = 'x-agentguard-timestamp';
   private readonly nonceHeader = 'x-agentguard-nonce';
   private readonly requestIdHeader = 'x-agentguard-request-id';
+  private readonly keyIdHeader = 'x-agentguard-key-id';
+
+  // Ed25519 keys parsed once, by key ID for verification keys
+  private readonly privateKey?: KeyObject;
+  private readonly publicKeys = new Map<string, KeyObject>();
+  private readonly verificationKeys = new Map<string, WebhookVerificationKey>();
 
   constructor(private readonly config: WebhookSecurityConfig) {
-    if (!config.signingSecret || config.signingSecret.length < 32) {
-      throw new Error('Webhook signing secret must be at least 32 characters');
+    if (config.signingSecret === undefined && !config.signingKey) {
+      throw new Error('Webhook security requires a signingSecret or a signingKey');
+    }
+    if (config.signingSecret !== undefined) {
+      requireSecret(config.signingSecret);
+    }
+
+    const { signingKey } = config;
+    if (signingKey?.algorithm === 'hmac-sha256') {
+      requireSecret(signingKey.secret);
+    } else if (signingKey?.algorithm === 'ed25519') {
+      this.privateKey = parseKey(signingKey.keyId, () => createPrivateKey(signingKey.privateKey));
+    }
+
+    for (const key of config.verificationKeys ?? []) {
+      if (this.verificationKeys.has(key.keyId)) {
+        throw new Error(`Duplicate webhook verification key ID: ${key.keyId}`);
+      }
+      if (key.expiresAt !== undefined && isNaN(Date.parse(key.expiresAt))) {
+        throw new Error(`Invalid expiresAt for webhook verification key "${key.keyId}"`);
+      }
+
+      if (key.algorithm === 'hmac-sha256') {
+        requireSecret(key.secret);
+      } else {
+        this.publicKeys.set(
+          key.keyId,
+          parseKey(key.keyId, () => createPublicKey(key.publicKey)),
+        );
+      }
+      this.verificationKeys.set(key.keyId, key);
     }
   }
 
   /**
-   * Sign a webhook payload
+   * Generate a key to sign webhooks with and the matching key for receivers to verify them.
+   * For HMAC both hold the same random secret.
+   */
+  static generateKeys(
+    keyId: string,
+    algorithm: WebhookSigningAlgorithm = 'ed25519',
+  ): { signingKey: WebhookSigningKey; verificationKey: WebhookVerificationKey } {
+    if (algorithm === 'hmac-sha256') {
+      const secret = randomBytes(32).toString('base64url');
+      return {
+        signingKey: { keyId, algorithm, secret },
+        verificationKey: { keyId, algorithm, secret },
+      };
+    }
+
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519', {
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+    return {
+      signingKey: { keyId, algorithm, privateKey },
+      verificationKey: { keyId, algorithm, publicKey },
+    };
+  }
+
+  /**
+   * Sign a webhook payload with the signing key, or the shared secret when there is none
    */
   signPayload(payload: string, requestId: string, timestamp: number, nonce: string): string {
     const message = `${requestId}.${timestamp}.${nonce}.${payload}`;
-    return createHmac('sha256', this.config.signingSecret).update(message).digest('hex');
+    const { signingKey } = this.config;
+
+    if (this.privateKey) {
+      return sign(null, Buffer.from(message), this.privateKey).toString('hex');
+    }
+    return hmac(
+      signingKey?.algorithm === 'hmac-sha256' ? signingKey.secret : this.config.signingSecret!,
+      message,
+    );
   }
 
   /**
-   * Verify a webhook signature
+   * Verify a webhook signature. Signatures naming a key ID are checked against that key in
+   * the keyring; signatures without one against the shared secret.
    */
   verifySignature(
     payload: string,
@@ -32,6 +123,7 @@ export class WebhookSecurity {
     requestId: string,
     timestamp: number,
     nonce: string,
+    keyId?: string,
   ): boolean {
     // Check timestamp to prevent replay attacks (5 minute window)
     const now = Date.now();
@@ -39,10 +131,43 @@ export class WebhookSecurity {
       return false;
     }
 
-    const expectedSignature = this.signPayload(payload, requestId, timestamp, nonce);
+    const message = `${requestId}.${timestamp}.${nonce}.${payload}`;
+
+    if (keyId === undefined) {
+      // Constant-time comparison to prevent timing attacks
+      return (
+        this.config.signingSecret !== undefined &&
+        this.secureCompare(signature, hmac(this.config.signingSecret, message))
+      );
+    }
 
-    // Constant-time comparison to prevent timing attacks
-    return this.secureCompare(signature, expectedSignature);
+    const key = this.getVerificationKey(keyId, now);
+    if (!key) {
+      return false;
+    }
+
+    if (key.algorithm === 'hmac-sha256') {
+      return this.secureCompare(signature, hmac(key.secret, message));
+    }
+
+    try {
+      return verify(
+        null,
+        Buffer.from(message),
+        this.publicKeys.get(keyId)!,
+        Buffer.from(signature, 'hex'),
+      );
+    } catch {
+      // Signatures of the wrong length are rejected by the runtime rather than failing to verify
+      return false;
+    }
+  }
+
+  /**
+   * Get the key IDs in the verification keyring that have not been retired
+   */
+  getActiveKeyIds(now = Date.now()): string[] {
+    return [...this.verificationKeys.keys()].filter(keyId => this.getVerificationKey(keyId, now));
   }
 
   /**
@@ -94,6 +219,31 @@ export class WebhookSecurity {
     return JSON.parse(decrypted.toString('utf8'));
   }
 
+  /**
+   * Encrypt the fields of a payload at the given dot paths, e.g. `request.toolCall.parameters.ssn`.
+   * Each field becomes `{ encrypted, iv, tag }` holding `{ value }`; missing fields are skipped.
+   */
+  encryptFields<T>(payload: T, paths: readonly string[]): T {
+    const result = JSON.parse(JSON.stringify(payload)); // Deep clone
+    for (const path of paths) {
+      updateField(result, path, value => this.encryptPayload({ value }));
+    }
+    return result;
+  }
+
+  /**
+   * Decrypt the fields encrypted by `encryptFields`. Fields that are not encrypted are left as is.
+   */
+  decryptFields<T>(payload: T, paths: readonly string[]): T {
+    const result = JSON.parse(JSON.stringify(payload)); // Deep clone
+    for (const path of paths) {
+      updateField(result, path, value =>
+        isEncryptedField(value) ? (this.decryptPayload(value) as { value: unknown }).value : value,
+      );
+    }
+    return result;
+  }
+
   /**
    * Generate secure headers for a webhook request
    */
@@ -104,6 +254,7 @@ export class WebhookSecurity {
 
     return {
       [this.signatureHeader]: signature,
+      ...(this.config.signingKey && { [this.keyIdHeader]: this.config.signingKey.keyId }),
       [this.timestampHeader]: timestamp.toString(),
       [this.nonceHeader]: nonce,
       [this.requestIdHeader]: requestId,
@@ -124,6 +275,7 @@ export class WebhookSecurity {
     const timestamp = headers[this.timestampHeader];
     const nonce = headers[this.nonceHeader];
     const requestId = headers[this.requestIdHeader];
+    const keyId = headers[this.keyIdHeader];
 
     if (!signature || !timestamp || !nonce || !requestId) {
       return {
@@ -147,7 +299,28 @@ export class WebhookSecurity {
       };
     }
 
-    const isValid = this.verifySignature(body, signature, requestId, timestampNum, nonce);
+    if (keyId !== undefined && !this.verificationKeys.has(keyId)) {
+      return {
+        valid: false,
+        reason: `Unknown signing key ID: ${keyId}`,
+      };
+    }
+
+    if (keyId !== undefined && !this.getVerificationKey(keyId, Date.now())) {
+      return {
+        valid: false,
+        reason: `Signing key ${keyId} has been retired`,
+      };
+    }
+
+    if (keyId === undefined && this.config.signingSecret === undefined) {
+      return {
+        valid: false,
+        reason: 'Missing signing key ID',
+      };
+    }
+
+    const isValid = this.verifySignature(body, signature, requestId, timestampNum, nonce, keyId);
 
     return {
       valid: isValid,
@@ -155,6 +328,16 @@ export class WebhookSecurity {
     };
   }
 
+  /**
+   * Get a verification key unless it is unknown or retired
+   */
+  private getVerificationKey(keyId: string, now: number): WebhookVerificationKey | undefined {
+    const key = this.verificationKeys.get(keyId);
+    return key && (key.expiresAt === undefined || Date.parse(key.expiresAt) > now)
+      ? key
+      : undefined;
+  }
+
   /**
    * Constant-time string comparison to prevent timing attacks
    */
@@ -170,3 +353,76 @@ export class WebhookSecurity {
     return result === 0;
   }
 }
+
+/**
+ * Lower-case header names and take the first of repeated headers, as Node's http module
+ * gives them
+ */
+export function normalizeHeaders(
+  headers: Record<string, string | string[] | undefined>,
+): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) {
+      normalized[name.toLowerCase()] = first;
+    }
+  }
+  return normalized;
+}
+
+function updateField(obj: any, path: string, update: (value: unknown) => unknown): void {
+  const parts = path.split('.');
+
+  let current = obj;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const part = parts[i];
+
+    if (!part || !current[part]) {
+      return;
+    }
+
+    current = current[part];
+  }
+
+  const fieldName = parts[parts.length - 1];
+
+  if (fieldName && current[fieldName] !== undefined) {
+    current[fieldName] = update(current[fieldName]);
+  }
+}
+
+function isEncryptedField(value: unknown): value is { encrypted: string; iv: string; tag: string } {
+  const field = value as Record<string, unknown> | null;
+  return (
+    typeof field === 'object' &&
+    field !== null &&
+    typeof field.encrypted === 'string' &&
+    typeof field.iv === 'string' &&
+    typeof field.tag === 'string'
+  );
+}
+
+function requireSecret(secret: string): void {
+  if (!secret || secret.length < 32) {
+    throw new Error('Webhook signing secret must be at least 32 characters');
+  }
+}
+
+function parseKey(keyId: string, parse: () => KeyObject): KeyObject {
+  let key: KeyObject;
+  try {
+    key = parse();
+  } catch {
+    throw new Error(`Invalid key for webhook key "${keyId}"`);
+  }
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Webhook key "${keyId}" is not an Ed25519 key`);
+  }
+  return key;
+}
+
+function hmac(secret: string, message: string): string {
+  return createHmac('sha256', secret).update(message).digest('hex');
+}
@@ -1,4 +1,6 @@
-export type PolicyDecision = 'ALLOW' | 'BLOCK' | 'REQUIRE_HUMAN_APPROVAL';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export type PolicyDecision = 'ALLOW' | 'BLOCK' | 'REQUIRE_HUMAN_APPROVAL' | 'MODIFY';
 
 export type ToolCall = {
   readonly toolName: string;
@@ -8,41 +10,234 @@ export type ToolCall = {
   readonly metadata?: Record<string, unknown>;
 };
 
+export type EnforcementMode = 'enforce' | 'shadow';
+
 export type PolicyRule = {
   readonly name: string;
   readonly description?: string;
   readonly conditions: PolicyCondition[];
   readonly action: PolicyDecision;
   readonly priority?: number;
+  // Shadow rules are evaluated and reported but never decide the outcome
+  readonly mode?: EnforcementMode;
+  // Applied in order when a MODIFY rule matches
+  readonly transforms?: RuleTransform[];
+  // Only decide once matching calls exceed the limit; calls within it fall through to later rules
+  readonly rateLimit?: RateLimit;
+  // Only decide once the running total of a numeric field exceeds the limit
+  readonly budget?: Budget;
+  // ISO timestamps bounding when the rule applies; outside them it never matches
+  readonly validFrom?: string;
+  readonly validUntil?: string;
+  // Only calls within the scope are evaluated against the rule
+  readonly scope?: PolicyScope;
+};
+
+// Which tool calls a policy or rule applies to. Every part that is set must match: agents
+// and sessions are id patterns where `*` matches any run of characters, and roles and tags
+// match when the call's `metadata.roles` (or `metadata.role`) and `metadata.tags` list any
+// of them.
+export type PolicyScope = {
+  readonly agents?: string[];
+  readonly sessions?: string[];
+  readonly roles?: string[];
+  readonly tags?: string[];
+};
+
+export type RateLimit = {
+  // Calls allowed per window before the rule applies
+  readonly limit: number;
+  // Window length in milliseconds; counters reset at fixed window boundaries
+  readonly window: number;
+  // Whose calls are counted together
+  readonly per: 'session' | 'agent' | 'global';
+};
+
+export type Budget = {
+  // Numeric field added up across calls (e.g. "toolCall.parameters.amount")
+  readonly field: string;
+  // Highest total allowed per window before the rule applies
+  readonly limit: number;
+  // Window length in milliseconds; totals reset at fixed window boundaries
+  readonly window: number;
+  // Whose calls are added up together
+  readonly per: 'session' | 'agent' | 'global';
 };
 
-export type PolicyCondition = {
+// Fields are full paths under toolCall.parameters for rules (e.g. "toolCall.parameters.limit")
+// and under result for result rules (e.g. "result.rows", or "result" for the whole value)
+export type RuleTransform =
+  | { readonly op: 'remove'; readonly field: string }
+  | { readonly op: 'set'; readonly field: string; readonly value: unknown }
+  | { readonly op: 'clamp'; readonly field: string; readonly min?: number; readonly max?: number }
+  // Keep the first `max` items of an array or characters of a string
+  | { readonly op: 'truncate'; readonly field: string; readonly max: number }
+  // Replace pattern matches in every nested string, or the whole value when no pattern is given
+  | {
+      readonly op: 'redact';
+      readonly field: string;
+      readonly pattern?: string;
+      readonly replacement?: string;
+    };
+
+export type ConditionOperator =
+  | 'equals'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'regex'
+  | 'in'
+  | 'gt'
+  | 'lt'
+  | 'gte'
+  | 'lte';
+
+export type FieldCondition = {
   readonly field: string;
-  readonly operator:
-    | 'equals'
-    | 'contains'
-    | 'startsWith'
-    | 'endsWith'
-    | 'regex'
-    | 'in'
-    | 'gt'
-    | 'lt'
-    | 'gte'
-    | 'lte';
+  readonly operator: ConditionOperator;
   readonly value: unknown;
 };
 
+export type ConditionGroup =
+  | { readonly anyOf: PolicyCondition[] }
+  | { readonly allOf: PolicyCondition[] }
+  | { readonly not: PolicyCondition };
+
+// Matches when the session already made a call to the tool, optionally only counting calls
+// with the given outcome or made within the last `within` milliseconds
+export type SequenceCondition = {
+  readonly previousCall: {
+    readonly toolName: string;
+    readonly status?: CallStatus;
+    readonly within?: number;
+  };
+};
+
+// Matches when the value at `field` (default: all parameters) contains text copied from the
+// output of a tool protected with a taint label, optionally only the given label
+export type TaintCondition = {
+  readonly taint: {
+    readonly field?: string;
+    readonly label?: string;
+  };
+};
+
+// Matches when the evaluation timestamp falls within the schedule
+export type ScheduleCondition = {
+  readonly schedule: Schedule;
+};
+
+// Matches when the evaluation timestamp falls within any schedule of a window named in the
+// policy's `windows`
+export type WindowCondition = {
+  readonly window: string;
+};
+
+export type PolicyCondition =
+  | FieldCondition
+  | ConditionGroup
+  | SequenceCondition
+  | TaintCondition
+  | ScheduleCondition
+  | WindowCondition;
+
+export type DayOfWeek = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Times read in `timezone`; every part that is set must match, so an empty schedule always does
+export type Schedule = {
+  // IANA time zone, e.g. "Europe/Berlin" (default: UTC)
+  readonly timezone?: string;
+  readonly days?: DayOfWeek[];
+  // Local times of day as "HH:MM", from inclusive to exclusive; a range whose end is before
+  // its start runs past midnight
+  readonly hours?: { readonly from: string; readonly to: string };
+  // Inclusive bounds, either calendar dates ("YYYY-MM-DD") in the time zone or ISO timestamps
+  // with an offset
+  readonly dates?: { readonly from?: string; readonly to?: string };
+};
+
+// An instant as read in a schedule's time zone
+export type LocalTime = {
+  // "YYYY-MM-DD"
+  readonly date: string;
+  // "HH:MM"
+  readonly time: string;
+  readonly day: DayOfWeek;
+  readonly timezone: string;
+};
+
+export type CallStatus = 'succeeded' | 'failed';
+
+// A protected tool call that ran, as kept in its session's history
+export type SessionCall = {
+  readonly toolName: string;
+  readonly status: CallStatus;
+  readonly timestamp: string;
+};
+
+// A parameter found to contain tainted text
+export type TaintMatch = {
+  // Full path of the parameter (e.g. "toolCall.parameters.body")
+  readonly field: string;
+  readonly label: string;
+  // The run of tainted characters found in the parameter
+  readonly fragment: string;
+};
+
+export type TaintConfig = {
+  // Shortest run of characters copied from a tainted output that counts as tainted (default: 12)
+  readonly minLength?: number;
+};
+
+export type SessionHistoryConfig = {
+  // Most recent calls kept per session (default: 100)
+  readonly maxCallsPerSession?: number;
+  // How long calls are kept, in milliseconds (default: 1 hour)
+  readonly ttl?: number;
+};
+
 export type Policy = {
   readonly version: string;
   readonly name: string;
   readonly description?: string;
   readonly defaultAction: PolicyDecision;
   readonly rules: PolicyRule[];
+  // Evaluated against what a tool returned; actions are ALLOW, BLOCK or MODIFY and the
+  // result is passed through unchanged when none match
+  readonly resultRules?: PolicyRule[];
+  // Named sets of schedules, such as maintenance windows, referenced by window conditions
+  readonly windows?: Record<string, Schedule[]>;
+  // Only calls within the scope are evaluated against the policy
+  readonly scope?: PolicyScope;
   readonly webhook?: WebhookConfig;
 };
 
+export type WebhookSigningAlgorithm = 'ed25519' | 'hmac-sha256';
+
+// Signs outgoing webhooks. The key ID is sent in the x-agentguard-key-id header so the
+// receiver knows which of its verification keys to check the signature with.
+export type WebhookSigningKey = { readonly keyId: string } & (
+  | { readonly algorithm: 'ed25519'; readonly privateKey: string }
+  | { readonly algorithm: 'hmac-sha256'; readonly secret: string }
+);
+
+// Accepted on signed messages that name its key ID. Keys are retired at expiresAt, so a
+// rotated-out key keeps verifying until messages signed with it have drained.
+export type WebhookVerificationKey = {
+  readonly keyId: string;
+  readonly expiresAt?: string;
+} & (
+  | { readonly algorithm: 'ed25519'; readonly publicKey: string }
+  | { readonly algorithm: 'hmac-sha256'; readonly secret: string }
+);
+
 export type WebhookSecurityConfig = {
-  readonly signingSecret: string;
+  // Shared HMAC-SHA256 secret, used for messages without a key ID
+  readonly signingSecret?: string;
+  // Takes precedence over signingSecret for signing outgoing webhooks
+  readonly signingKey?: WebhookSigningKey;
+  // Keyring for approval responses and other signed messages sent to this host
+  readonly verificationKeys?: readonly WebhookVerificationKey[];
   readonly encryptionKey?: string;
   readonly encryptSensitiveData?: boolean;
   readonly sensitiveFields?: string[];
@@ -71,38 +266,402 @@ export type ApprovalResponse = {
   readonly approvedBy?: string;
 };
 
+// Delivers approval requests to people by a channel other than the webhook, such as
+// TerminalApprover. requestApproval should return once the request is delivered, and call
+// respond when someone decides.
+export type Approver = {
+  requestApproval(
+    request: ApprovalRequest,
+    respond: (response: Omit<ApprovalResponse, 'requestId'>) => Promise<void>,
+  ): Promise<void>;
+};
+
+// The body of an approval webhook, as sent by HITLManager
+export type ApprovalWebhookPayload = {
+  readonly type: 'approval_request';
+  readonly request: ApprovalRequest;
+  readonly timestamp: string;
+};
+
+// An approval response ready to post back to the agent: send `body` as is, with `headers`
+export type SignedApprovalResponse = {
+  readonly response: ApprovalResponse;
+  readonly body: string;
+  readonly headers: Record<string, string>;
+};
+
+// A Node http request handler for approval responses that also works as Express-style
+// middleware; `body` is used when a body parser has already read the request
+export type ApprovalRequestHandler = (
+  req: IncomingMessage & { body?: unknown },
+  res: ServerResponse,
+  next?: (error?: unknown) => void,
+) => Promise<void>;
+
 export type GuardResult = {
   readonly decision: PolicyDecision;
   readonly rule?: PolicyRule;
   readonly reason: string;
+  // Name of the policy whose rule or default action decided the call
+  readonly policy?: string;
   readonly approvalRequestId?: string;
+  // Set for MODIFY decisions: the parameters as called and as passed on to the tool
+  readonly originalParameters?: Record<string, unknown>;
+  readonly modifiedParameters?: Record<string, unknown>;
+  // Set for MODIFY decisions of result rules: the tool's return value before and after
+  readonly originalResult?: unknown;
+  readonly modifiedResult?: unknown;
+  // Quota of the most constrained rate-limited rule the call matched
+  readonly rateLimit?: RateLimitStatus;
+  // Spend of the most constrained budgeted rule the call matched
+  readonly budget?: BudgetStatus;
+  // Set when a break-glass grant let through a call the policy blocked
+  readonly breakGlass?: BreakGlassOverride;
+  // Highest-priority shadow rule that matched, i.e. what it would have decided if enforced
+  readonly shadow?: {
+    readonly decision: PolicyDecision;
+    readonly rule: PolicyRule;
+    readonly reason: string;
+  };
+};
+
+export type RateLimitStatus = {
+  readonly rule: string;
+  readonly limit: number;
+  // Calls left in the current window, after this one
+  readonly remaining: number;
+  readonly resetAt: string;
+  readonly exceeded: boolean;
+};
+
+export type BudgetStatus = {
+  readonly rule: string;
+  readonly limit: number;
+  // Total for the current window, including this call
+  readonly spent: number;
+  readonly remaining: number;
+  readonly resetAt: string;
+  readonly exceeded: boolean;
+};
+
+// Emergency permission, signed by an operator, to let through calls the policy blocks
+export type BreakGlassGrant = {
+  readonly id: string;
+  // Calls the grant covers; it needs at least one of these, and every one given must match
+  readonly agentId?: string;
+  readonly toolNames?: string[];
+  readonly issuedBy: string;
+  readonly reason: string;
+  readonly issuedAt: string;
+  readonly expiresAt: string;
+};
+
+export type BreakGlassOverride = {
+  readonly grant: BreakGlassGrant;
+  // The BLOCK decision the grant overrode
+  readonly blockedBy?: PolicyRule;
+  readonly blockedReason: string;
+};
+
+export type BreakGlassConfig = {
+  // Shared secret that break-glass tokens are signed with (at least 32 characters)
+  readonly secret: string;
 };
 
+export type PolicySigningAlgorithm = 'ed25519' | 'hmac-sha256';
+
+// Signs policy files: an Ed25519 private key (PEM) or a shared HMAC secret
+export type PolicySigningKey =
+  | { readonly algorithm: 'ed25519'; readonly privateKey: string }
+  | { readonly algorithm: 'hmac-sha256'; readonly secret: string };
+
+// Verifies policy file signatures: an Ed25519 public key (PEM) or the shared HMAC secret
+export type PolicyVerificationKey =
+  | { readonly algorithm: 'ed25519'; readonly publicKey: string }
+  | { readonly algorithm: 'hmac-sha256'; readonly secret: string };
+
+// Contents of the detached signature file kept next to a policy file as `<file>.sig`
+export type PolicySignature = {
+  readonly algorithm: PolicySigningAlgorithm;
+  // Base64 signature over the file's exact bytes
+  readonly signature: string;
+};
+
+export type ShadowDecision = {
+  // 'guard' when the whole guard runs in shadow mode, 'rule' for a shadow-mode rule
+  readonly scope: 'guard' | 'rule';
+  readonly toolCall: ToolCall;
+  // The decision that would have been made if enforced
+  readonly decision: PolicyDecision;
+  readonly rule?: PolicyRule;
+  readonly reason: string;
+  // The decision that was actually enforced
+  readonly enforcedDecision: PolicyDecision;
+  readonly timestamp: string;
+};
+
+export type ShadowDecisionSink = (decision: ShadowDecision) => void | Promise<void>;
+
+export type PolicyDivergence = {
+  readonly toolCall: ToolCall;
+  readonly primary: PolicyOutcome;
+  readonly candidate: PolicyOutcome;
+  readonly timestamp: string;
+};
+
+export type PolicyOutcome = {
+  readonly policyName: string;
+  readonly decision: PolicyDecision;
+  readonly rule?: PolicyRule;
+  readonly reason: string;
+};
+
+export type PolicyDivergenceSink = (divergence: PolicyDivergence) => void | Promise<void>;
+
+export type ConditionExplanation =
+  | {
+      readonly type: 'field';
+      readonly field: string;
+      readonly operator: ConditionOperator;
+      readonly expected: unknown;
+      readonly actual: unknown;
+      readonly passed: boolean;
+    }
+  | {
+      readonly type: 'previousCall';
+      readonly toolName: string;
+      readonly status?: CallStatus;
+      readonly within?: number;
+      // Most recent call in the session history that satisfied the condition
+      readonly matchedCall?: SessionCall;
+      readonly passed: boolean;
+    }
+  | {
+      readonly type: 'taint';
+      readonly field: string;
+      readonly label?: string;
+      readonly matches: TaintMatch[];
+      readonly passed: boolean;
+    }
+  | {
+      readonly type: 'schedule';
+      readonly schedule: Schedule;
+      readonly localTime: LocalTime;
+      readonly passed: boolean;
+    }
+  | {
+      readonly type: 'window';
+      readonly window: string;
+      // Index of the first of the window's schedules that matched
+      readonly matchedSchedule?: number;
+      readonly passed: boolean;
+    }
+  | {
+      readonly type: 'anyOf' | 'allOf' | 'not';
+      readonly passed: boolean;
+      readonly conditions: ConditionExplanation[];
+    };
+
+export type RuleExplanation = {
+  readonly rule: PolicyRule;
+  // Name of the policy the rule belongs to
+  readonly policy?: string;
+  readonly priority: number;
+  readonly matched: boolean;
+  // Set when the evaluation timestamp is outside the rule's validFrom/validUntil
+  readonly inactive?: 'notYetValid' | 'expired';
+  // Set when the tool call is outside the rule's scope
+  readonly outOfScope?: true;
+  // Counter status of a matching rate-limited or budgeted rule, which only decides once its
+  // limit is exceeded; looking does not count the call
+  readonly rateLimit?: RateLimitStatus;
+  readonly budget?: BudgetStatus;
+  readonly conditions: ConditionExplanation[];
+};
+
+export type PolicyExplanation = {
+  readonly toolCall: ToolCall;
+  readonly decision: PolicyDecision;
+  readonly rule?: PolicyRule;
+  readonly reason: string;
+  // Name of the policy whose rule or default action decided the call; unset when no policy's
+  // scope covers it
+  readonly policy?: string;
+  // Set when a break-glass grant lets through a call the policy blocks
+  readonly breakGlass?: BreakGlassOverride;
+  // Every rule of every policy in scope, in policy order and then evaluation (priority) order
+  readonly rules: RuleExplanation[];
+  readonly priorityReason: string;
+  readonly timestamp: string;
+};
+
+// How a guarded tool call ended up; the tool only ran for ALLOWED, MODIFIED, APPROVED and
+// OVERRIDDEN, a blocked call let through by a break-glass grant.
+// RESULT_* outcomes are recorded when a result rule acts on what the tool returned.
+export type AuditOutcome =
+  | 'ALLOWED'
+  | 'MODIFIED'
+  | 'BLOCKED'
+  | 'APPROVED'
+  | 'DENIED'
+  | 'APPROVAL_FAILED'
+  | 'OVERRIDDEN'
+  | 'RESULT_BLOCKED'
+  | 'RESULT_MODIFIED';
+
+export type AuditEntry = {
+  readonly sequence: number;
+  readonly timestamp: string;
+  readonly mode: EnforcementMode;
+  readonly toolCall: ToolCall;
+  readonly result: GuardResult;
+  readonly rule?: string;
+  readonly approvalRequestId?: string;
+  readonly approvedBy?: string;
+  readonly outcome: AuditOutcome;
+  // Hash of the preceding entry (all zeros for the first one)
+  readonly previousHash: string;
+  // SHA-256 over every other field of this entry
+  readonly hash: string;
+};
+
+export type AuditLogIssue = {
+  // 1-based line number in the log file
+  readonly line: number;
+  readonly sequence?: number;
+  readonly reason: string;
+};
+
+export type AuditVerificationResult = {
+  readonly valid: boolean;
+  readonly entryCount: number;
+  // Hash of the last entry; anchor it elsewhere to also detect truncation of the tail
+  readonly lastHash: string | null;
+  readonly issues: AuditLogIssue[];
+};
+
+export type AuditConfig = {
+  // JSONL file entries are appended to; an existing chain is continued
+  readonly path: string;
+};
+
+// How the results of several policies are combined into one decision. Only policies with a
+// matching rule take part; when none has one, their default actions do.
+// - deny-overrides: BLOCK wins, then REQUIRE_HUMAN_APPROVAL, MODIFY and ALLOW
+// - permit-overrides: ALLOW wins, then MODIFY, REQUIRE_HUMAN_APPROVAL and BLOCK
+// - approval-overrides: REQUIRE_HUMAN_APPROVAL wins, then BLOCK, MODIFY and ALLOW
+// - first-applicable: the first policy in order decides
+// Ties go to the policy that comes first.
+export type CombiningAlgorithm =
+  | 'deny-overrides'
+  | 'permit-overrides'
+  | 'approval-overrides'
+  | 'first-applicable';
+
 export type AgentGuardConfig = {
   readonly webhook?: WebhookConfig;
   readonly enableLogging?: boolean;
   readonly timeout?: number;
+  // In shadow mode every call is let through and the would-be decision is recorded
+  readonly mode?: EnforcementMode;
+  readonly shadowSink?: ShadowDecisionSink;
   readonly cache?: {
     readonly enabled: boolean;
     readonly ttl?: number;
+    readonly maxSize?: number;
   };
-} & (
-  | { readonly policyPath: string; readonly policy?: never }
-  | { readonly policy: Policy; readonly policyPath?: never }
-);
+  // Reports tool calls where the candidate policy decides differently from the primary one
+  readonly divergenceSink?: PolicyDivergenceSink;
+  // Tamper-evident record of every guarded tool call
+  readonly audit?: AuditConfig;
+  // Where pending approvals are kept (default: in memory)
+  readonly approvalStore?: ApprovalStore;
+  // Takes approval requests instead of the webhook, e.g. TerminalApprover in development
+  readonly approver?: Approver;
+  // Where rate limit counters are kept (default: in memory); share one across processes
+  readonly counterStore?: CounterStore;
+  // Retention of the per-session call history that previousCall conditions query; tainted
+  // outputs are kept for the same ttl
+  readonly history?: SessionHistoryConfig;
+  readonly taint?: TaintConfig;
+  // Source of the current time (default: the system clock): the evaluation timestamp that
+  // schedule and window conditions are checked against, session history and taint ages, rate
+  // limit and budget windows, expiry in the default counter store and the decision cache, and
+  // audit, shadow and divergence timestamps. Set a fixed clock to make them deterministic.
+  // Approval timeouts, and expiry in a counterStore that is passed in, keep real time
+  readonly clock?: () => Date;
+  // Enables break-glass overrides, activated with tokens signed by the same secret
+  readonly breakGlass?: BreakGlassConfig;
+  // How the decisions of several policies are combined (default: deny-overrides)
+  readonly combiningAlgorithm?: CombiningAlgorithm;
+  // Only load policy files, and the files they extend and include, signed for this key
+  readonly policyVerificationKey?: PolicyVerificationKey;
+} & ( // One policy, or an ordered list of policies evaluated together
+  | { readonly policyPath: string | readonly string[]; readonly policy?: never }
+  | { readonly policy: Policy | readonly Policy[]; readonly policyPath?: never }
+) &
+  // A candidate policy is evaluated alongside the primary one but never enforced
+  (| { readonly candidatePolicyPath?: string; readonly candidatePolicy?: never }
+    | { readonly candidatePolicy?: Policy; readonly candidatePolicyPath?: never }
+  );
 
 export type ResolvedAgentGuardConfig = {
-  readonly policyPath?: string | undefined;
-  readonly policy?: Policy | undefined;
+  readonly policyPath?: string | readonly string[] | undefined;
+  readonly policy?: Policy | readonly Policy[] | undefined;
   readonly webhook?: WebhookConfig | undefined;
   readonly enableLogging: boolean;
   readonly timeout: number;
+  readonly mode: EnforcementMode;
+  readonly shadowSink?: ShadowDecisionSink | undefined;
+  readonly candidatePolicyPath?: string | undefined;
+  readonly candidatePolicy?: Policy | undefined;
+  readonly divergenceSink?: PolicyDivergenceSink | undefined;
+  readonly audit?: AuditConfig | undefined;
+  readonly approvalStore?: ApprovalStore | undefined;
+  readonly approver?: Approver | undefined;
+  readonly counterStore: CounterStore;
+  readonly history: Required<SessionHistoryConfig>;
+  readonly taint: Required<TaintConfig>;
+  readonly clock: () => Date;
+  readonly breakGlass?: BreakGlassConfig | undefined;
+  readonly combiningAlgorithm: CombiningAlgorithm;
+  readonly policyVerificationKey?: PolicyVerificationKey | undefined;
   readonly cache: {
     readonly enabled: boolean;
     readonly ttl: number;
+    readonly maxSize: number;
   };
 };
 
+export type PolicyWatchOptions = {
+  // Quiet period after the last change before reloading, in milliseconds (default: 250)
+  readonly debounce?: number;
+};
+
+// Emitted as "reload" once changed policy files have been loaded and swapped in
+export type PolicyReloadEvent = {
+  readonly policies: Policy[];
+  // Files now watched: the policy files and the files they extend and include
+  readonly files: string[];
+  readonly timestamp: string;
+};
+
+// Emitted as "reloadFailed" when changed policy files do not load; the last good policies
+// stay in place
+export type PolicyReloadFailure = {
+  readonly error: Error;
+  readonly files: string[];
+  readonly timestamp: string;
+};
+
+export type DecisionCacheStats = {
+  readonly hits: number;
+  readonly misses: number;
+  readonly evictions: number;
+  readonly size: number;
+  readonly hitRate: number;
+};
+
 export type WrappedTool<T extends (...args: any[]) => any> = T & {
   readonly __agentguard_wrapped: true;
   readonly __original_function: T;
@@ -112,6 +671,13 @@ export type PolicyEvaluationContext = {
   readonly toolCall: ToolCall;
   readonly policy: Policy;
   readonly timestamp: string;
+  // Only set when evaluating result rules: the tool's return value and its JSON serialization
+  readonly result?: unknown;
+  readonly resultText?: string;
+  // Earlier calls in the tool call's session, oldest first
+  readonly history?: readonly SessionCall[];
+  // Parameters of the tool call that contain text from tainted outputs of its session
+  readonly taintedFields?: readonly TaintMatch[];
 };
 
 export type HITLWorkflowResult = {
@@ -121,6 +687,41 @@ export type HITLWorkflowResult = {
   readonly responseTime: number;
 };
 
+export type StoredApproval = {
+  readonly request: ApprovalRequest;
+  // Set when a response arrived before anyone was waiting for it
+  readonly response?: HITLWorkflowResult;
+};
+
+// Persistence for pending approval requests, early responses and processed webhook nonces
+export type ApprovalStore = {
+  saveRequest(request: ApprovalRequest): Promise<void>;
+  getRequest(requestId: string): Promise<StoredApproval | undefined>;
+  saveResponse(requestId: string, response: HITLWorkflowResult): Promise<void>;
+  deleteRequest(requestId: string): Promise<void>;
+  listRequests(): Promise<StoredApproval[]>;
+  // Record a nonce, resolving to false if it had already been recorded
+  addNonce(nonce: string, timestamp: number): Promise<boolean>;
+  // Forget nonces recorded before the given time, resolving to the number removed
+  pruneNonces(olderThan: number): Promise<number>;
+};
+
+// Counters for rate limits. Keys embed their window, so entries only need to live for windowMs
+export type CounterStore = {
+  // Add to a counter, creating it if needed, and resolve to the new count
+  increment(key: string, amount: number, windowMs: number): Promise<number>;
+  // Resolve to a counter's current count, 0 if it does not exist
+  get(key: string): Promise<number>;
+};
+
+// The commands KeyValueCounterStore needs from a shared store, as named by Redis clients
+// such as ioredis; other stores can be adapted by implementing these three methods
+export type CounterClient = {
+  incrby(key: string, amount: number): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+};
+
 // Logging types
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
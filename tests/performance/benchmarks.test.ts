@@ -165,6 +165,88 @@ describe('Performance Benchmarks', () => {
     });
   });
 
+  describe('compiled policy engine', () => {
+    const ruleCount = 400;
+
+    // Every rule pins toolCall.toolName to a literal, so the compiled engine indexes all of them
+    const indexedPolicy: Policy = {
+      version: '1.0',
+      name: 'Indexed Policy',
+      defaultAction: 'BLOCK',
+      rules: Array.from({ length: ruleCount }, (_, i) => ({
+        name: `rule-${i}`,
+        priority: i,
+        action: 'ALLOW' as const,
+        conditions: [
+          { field: 'toolCall.toolName', operator: 'equals' as const, value: `tool-${i}` },
+          {
+            field: 'toolCall.parameters.query',
+            operator: 'regex' as const,
+            value: `^select.*${i}$`,
+          },
+        ],
+      })),
+    };
+
+    // The same decisions expressed with a regex on the tool name cannot be indexed
+    const unindexedPolicy: Policy = {
+      ...indexedPolicy,
+      name: 'Unindexed Policy',
+      rules: indexedPolicy.rules.map((rule, i) => ({
+        ...rule,
+        conditions: [
+          { field: 'toolCall.toolName', operator: 'regex' as const, value: `^tool-${i}$` },
+          ...rule.conditions.slice(1),
+        ],
+      })),
+    };
+
+    const measure = async (policy: Policy, iterations: number): Promise<number> => {
+      const guard = new AgentGuard({ policy, enableLogging: false, cache: { enabled: false } });
+      await guard.initialize();
+
+      const start = performance.now();
+      for (let i = 0; i < iterations; i++) {
+        await guard.evaluate({
+          toolName: `tool-${i % ruleCount}`,
+          parameters: { query: `select * from t where id = ${i % ruleCount}` },
+        });
+      }
+      return performance.now() - start;
+    };
+
+    it('should evaluate only candidate rules for indexed tool names', async () => {
+      const iterations = 2000;
+
+      const indexed = await measure(indexedPolicy, iterations);
+      const unindexed = await measure(unindexedPolicy, iterations);
+
+      console.log(
+        `400-rule policy (${iterations} evaluations): indexed ${indexed.toFixed(2)}ms, unindexed ${unindexed.toFixed(2)}ms (${(unindexed / indexed).toFixed(1)}x)`,
+      );
+
+      expect(indexed).toBeLessThan(unindexed / 3);
+    });
+
+    it('should make the same decisions with and without the index', async () => {
+      const indexedGuard = new AgentGuard({ policy: indexedPolicy, enableLogging: false });
+      const unindexedGuard = new AgentGuard({ policy: unindexedPolicy, enableLogging: false });
+      await indexedGuard.initialize();
+      await unindexedGuard.initialize();
+
+      for (const toolName of ['tool-0', 'tool-199', 'tool-399', 'unknown']) {
+        const toolCall = { toolName, parameters: { query: 'select 199' } };
+        const [indexed, unindexed] = await Promise.all([
+          indexedGuard.evaluate(toolCall),
+          unindexedGuard.evaluate(toolCall),
+        ]);
+
+        expect(indexed.decision).toBe(unindexed.decision);
+        expect(indexed.rule?.name).toBe(unindexed.rule?.name);
+      }
+    });
+  });
+
   describe('memory usage', () => {
     it('should not leak memory with repeated calls', async () => {
       const guard = new AgentGuard({ policy: simplePolicy, enableLogging: false });
@@ -3,6 +3,7 @@ import { writeFile, rm, mkdir, readFile } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { AgentGuardCLI } from '../../src/cli.js';
+import { AuditLog, Logger } from '../../src/index.js';
 import { samplePolicies } from '../fixtures/policies.js';
 
 describe('AgentGuardCLI', () => {
@@ -133,6 +134,55 @@ describe('AgentGuardCLI', () => {
       consoleSpy.mockRestore();
     });
 
+    it('should print the rules considered without sending approval webhooks', async () => {
+      const policyPath = join(testDir, 'test-policy.yaml');
+      await writeFile(policyPath, samplePolicies.complexPolicy);
+
+      await cli.run(['node', 'script.js', 'test', policyPath, 'transfer', 'amount=5000']);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Decision: REQUIRE_HUMAN_APPROVAL'),
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith('\nRules considered:');
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('✓ Large amount approval (REQUIRE_HUMAN_APPROVAL) - Priority: 140'),
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('✓ toolCall.parameters.amount gt 1000 (actual: 5000)'),
+      );
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not report rate-limited rules as deciding before their limit is hit', async () => {
+      const policyPath = join(testDir, 'rate-limit-policy.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Rate limits"
+defaultAction: ALLOW
+rules:
+  - name: "email-burst"
+    action: BLOCK
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "send_email"
+    rateLimit:
+      limit: 5
+      window: 60000
+      per: session
+`,
+      );
+
+      await cli.run(['node', 'script.js', 'test', policyPath, 'send_email']);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Decision: ALLOW'));
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('✓ email-burst (BLOCK) - Priority: 0 [rate limit: 4 left]'),
+      );
+    });
+
     it('should handle invalid tool parameters gracefully', async () => {
       const policyPath = join(testDir, 'test-policy.yaml');
       await writeFile(policyPath, samplePolicies.complexPolicy);
@@ -190,6 +240,90 @@ describe('AgentGuardCLI', () => {
     });
   });
 
+  describe('audit-verify command', () => {
+    it('should report an intact audit log', async () => {
+      const logPath = join(testDir, 'audit.jsonl');
+      const log = new AuditLog(logPath, new Logger({ enabled: false }));
+      await log.record({
+        mode: 'enforce',
+        toolCall: { toolName: 'read_file', parameters: {} },
+        result: { decision: 'ALLOW', reason: 'allowed' },
+        outcome: 'ALLOWED',
+      });
+
+      await cli.run(['node', 'agentguard', 'audit-verify', logPath]);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Audit log verified: 1 entries'),
+      );
+    });
+
+    it('should fail on a tampered audit log', async () => {
+      const logPath = join(testDir, 'audit.jsonl');
+      const log = new AuditLog(logPath, new Logger({ enabled: false }));
+      for (const toolName of ['read_file', 'write_file']) {
+        await log.record({
+          mode: 'enforce',
+          toolCall: { toolName, parameters: {} },
+          result: { decision: 'ALLOW', reason: 'allowed' },
+          outcome: 'ALLOWED',
+        });
+      }
+      const [, second] = (await readFile(logPath, 'utf-8')).split('\n');
+      await writeFile(logPath, `${second}\n`);
+
+      await expect(cli.run(['node', 'agentguard', 'audit-verify', logPath])).rejects.toThrow(
+        'Process exit',
+      );
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Audit log verification failed'),
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Line 1 (sequence 2): Expected sequence 1 but found 2'),
+      );
+    });
+  });
+
+  describe('keygen, sign and verify commands', () => {
+    it('should sign a policy with a new key pair and verify it with the public key', async () => {
+      const policyPath = join(testDir, 'policy.yaml');
+      const prefix = join(testDir, 'team');
+      await writeFile(policyPath, samplePolicies.blockAll);
+
+      await cli.run(['node', 'agentguard', 'keygen', 'ed25519', prefix]);
+      expect(await readFile(`${prefix}.pub`, 'utf-8')).toContain('PUBLIC KEY-----');
+
+      await cli.run(['node', 'agentguard', 'sign', policyPath, `${prefix}.key`]);
+      expect(JSON.parse(await readFile(`${policyPath}.sig`, 'utf-8'))).toMatchObject({
+        algorithm: 'ed25519',
+      });
+
+      await cli.run(['node', 'agentguard', 'verify', policyPath, `${prefix}.pub`]);
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Policy signatures verified (ed25519)'),
+      );
+
+      await writeFile(policyPath, samplePolicies.allowAll);
+      await expect(
+        cli.run(['node', 'agentguard', 'verify', policyPath, `${prefix}.pub`]),
+      ).rejects.toThrow('Process exit');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('does not match its signature'),
+      );
+    });
+
+    it('should not overwrite existing keys', async () => {
+      const prefix = join(testDir, 'team');
+      await cli.run(['node', 'agentguard', 'keygen', 'hmac-sha256', prefix]);
+
+      await expect(
+        cli.run(['node', 'agentguard', 'keygen', 'hmac-sha256', prefix]),
+      ).rejects.toThrow('Process exit');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`Key file already exists: ${prefix}.key`);
+    });
+  });
+
   describe('help command', () => {
     it('should show help information', async () => {
       await cli.run(['node', 'agentguard', 'help']);
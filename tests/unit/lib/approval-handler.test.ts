@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { createApprovalHandler } from '../../../src/lib/approval-handler.js';
+import { ApprovalReceiver } from '../../../src/lib/approval-receiver.js';
+import { HITLManager } from '../../../src/lib/hitl-manager.js';
+import { WebhookSecurity } from '../../../src/lib/webhook-security.js';
+import { Logger } from '../../../src/lib/logger.js';
+import { createMockToolCall } from '../../helpers/index.js';
+
+describe('createApprovalHandler()', () => {
+  // HITLManager's webhooks go to a mock; requests to the handler use the real fetch
+  const post = globalThis.fetch;
+  const agentKeys = WebhookSecurity.generateKeys('agent-1');
+  const serviceKeys = WebhookSecurity.generateKeys('approvals-1');
+  const receiver = new ApprovalReceiver({
+    signingKey: serviceKeys.signingKey,
+    verificationKeys: [agentKeys.verificationKey],
+  });
+
+  let manager: HITLManager;
+  let server: Server;
+  let url: string;
+
+  const send = (body: string, headers: Record<string, string> = {}, method = 'POST') =>
+    post(url, { method, headers, ...(method === 'POST' && { body }) });
+
+  beforeEach(async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ success: true }), { status: 200 }));
+    manager = new HITLManager(
+      {
+        url: 'https://approvals.example.com/webhook',
+        security: {
+          signingKey: agentKeys.signingKey,
+          verificationKeys: [serviceKeys.verificationKey],
+        },
+      },
+      new Logger({ enabled: false }),
+    );
+    server = createServer(createApprovalHandler(manager, { maxBodySize: 1024 }));
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/approvals`;
+  });
+
+  afterEach(async () => {
+    manager.destroy();
+    server.close();
+    await once(server, 'close');
+  });
+
+  it('should accept signed responses and settle the approval', async () => {
+    const requestId = await manager.createApprovalRequest(createMockToolCall());
+    const { body, headers } = receiver.approve(requestId, 'alice');
+
+    const response = await send(body, headers);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    await expect(manager.waitForApproval(requestId, 1000)).resolves.toMatchObject({
+      approved: true,
+      approvedBy: 'alice',
+    });
+  });
+
+  it('should check signatures against the raw body as it was signed', async () => {
+    const requestId = await manager.createApprovalRequest(createMockToolCall());
+    const body = JSON.stringify({ decision: 'DENY', requestId, approvedBy: 'alice' }, null, 2);
+    const service = new WebhookSecurity({ signingKey: serviceKeys.signingKey });
+
+    const response = await send(body, service.generateHeaders(body, requestId));
+
+    expect(response.status).toBe(200);
+    await expect(manager.waitForApproval(requestId, 1000)).resolves.toMatchObject({
+      approved: false,
+      approvedBy: 'alice',
+    });
+  });
+
+  it('should answer 401 for invalid signatures and 409 for replays', async () => {
+    const requestId = await manager.createApprovalRequest(createMockToolCall());
+    const { body, headers } = receiver.approve(requestId, 'alice');
+
+    const forged = await send(body.replace('alice', 'mallory'), headers);
+    expect(forged.status).toBe(401);
+    expect(await forged.json()).toMatchObject({ code: 'INVALID_RESPONSE_SIGNATURE' });
+
+    const replayed = receiver.deny(await manager.createApprovalRequest(createMockToolCall()), 'a');
+    await send(replayed.body, replayed.headers);
+    const replay = await send(replayed.body, replayed.headers);
+    expect(replay.status).toBe(409);
+    expect(await replay.json()).toMatchObject({ code: 'DUPLICATE_NONCE' });
+  });
+
+  it('should answer 404 for unknown and already settled requests', async () => {
+    const unknown = receiver.approve('no-such-request', 'alice');
+
+    const response = await send(unknown.body, unknown.headers);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ code: 'UNKNOWN_REQUEST_ID' });
+  });
+
+  it('should answer 400 for malformed bodies, 413 for oversized ones and 405 for other methods', async () => {
+    expect((await send('not json')).status).toBe(400);
+    expect((await send(JSON.stringify({ requestId: 'r', decision: 'MAYBE' }))).status).toBe(400);
+    expect((await send('x'.repeat(2048))).status).toBe(413);
+
+    const get = await send('', {}, 'GET');
+    expect(get.status).toBe(405);
+    expect(get.headers.get('allow')).toBe('POST');
+  });
+
+  it('should use a body already parsed by middleware and pass unexpected errors on', async () => {
+    const handler = createApprovalHandler({
+      handleApprovalResponse: vi.fn().mockRejectedValue(new Error('store unavailable')),
+    });
+    const next = vi.fn();
+    const res = { setHeader: vi.fn(), end: vi.fn(), statusCode: 200 };
+    const req = {
+      method: 'POST',
+      headers: {},
+      body: { requestId: 'r', decision: 'APPROVE' },
+    };
+
+    await handler(req as any, res as any, next);
+
+    expect(next).toHaveBeenCalledWith(new Error('store unavailable'));
+    expect(res.end).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ApprovalReceiver } from '../../../src/lib/approval-receiver.js';
+import { HITLManager } from '../../../src/lib/hitl-manager.js';
+import { WebhookSecurity } from '../../../src/lib/webhook-security.js';
+import { Logger } from '../../../src/lib/logger.js';
+import { createMockToolCall } from '../../helpers/index.js';
+import type { WebhookSecurityConfig } from '../../../src/types.js';
+
+describe('ApprovalReceiver', () => {
+  const encryptionKey = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef';
+  const sensitiveFields = ['request.toolCall.parameters.accountNumber'];
+  const agentKeys = WebhookSecurity.generateKeys('agent-1');
+  const serviceKeys = WebhookSecurity.generateKeys('approvals-1');
+
+  let manager: HITLManager;
+  let receiver: ApprovalReceiver;
+  let fetchSpy: ReturnType<typeof vi.fn>;
+
+  const agentSecurity: WebhookSecurityConfig = {
+    signingKey: agentKeys.signingKey,
+    verificationKeys: [serviceKeys.verificationKey],
+    encryptionKey,
+    encryptSensitiveData: true,
+    sensitiveFields,
+  };
+
+  // The webhook HITLManager last posted, as the approval service receives it
+  const lastWebhook = () => {
+    const [, init] = fetchSpy.mock.calls.at(-1)!;
+    return { body: init.body as string, headers: init.headers as Record<string, string> };
+  };
+
+  beforeEach(() => {
+    fetchSpy = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ success: true }), { status: 200 }));
+    global.fetch = fetchSpy as any;
+    manager = new HITLManager(
+      { url: 'https://approvals.example.com/webhook', security: agentSecurity },
+      new Logger({ enabled: false }),
+    );
+    receiver = new ApprovalReceiver({
+      signingKey: serviceKeys.signingKey,
+      verificationKeys: [agentKeys.verificationKey],
+      encryptionKey,
+      sensitiveFields,
+    });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  it('should verify and decrypt approval webhooks', async () => {
+    const toolCall = createMockToolCall({
+      toolName: 'transfer',
+      parameters: { amount: 5000, accountNumber: '12345678' },
+    });
+    const requestId = await manager.createApprovalRequest(toolCall);
+    const { body, headers } = lastWebhook();
+    expect(body).not.toContain('12345678');
+
+    const payload = await receiver.receive(body, headers);
+
+    expect(payload.type).toBe('approval_request');
+    expect(payload.request.id).toBe(requestId);
+    expect(payload.request.toolCall.parameters).toEqual({
+      amount: 5000,
+      accountNumber: '12345678',
+    });
+  });
+
+  it('should sign responses the agent accepts', async () => {
+    const requestId = await manager.createApprovalRequest(createMockToolCall());
+    const { request } = await receiver.receive(lastWebhook().body, lastWebhook().headers);
+
+    const { body, headers } = receiver.deny(request.id, 'alice', 'Not this week');
+    await manager.handleApprovalResponse(JSON.parse(body), headers);
+
+    await expect(manager.waitForApproval(requestId, 1000)).resolves.toMatchObject({
+      approved: false,
+      approvedBy: 'alice',
+      reason: 'Not this week',
+    });
+  });
+
+  it('should accept headers in any case and as lists, as Node gives them', async () => {
+    await manager.createApprovalRequest(createMockToolCall());
+    const { body, headers } = lastWebhook();
+    const nodeHeaders = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toUpperCase(), [value]]),
+    );
+
+    await expect(receiver.receive(body, nodeHeaders)).resolves.toMatchObject({
+      type: 'approval_request',
+    });
+  });
+
+  it('should reject tampered and replayed webhooks', async () => {
+    await manager.createApprovalRequest(createMockToolCall({ parameters: { amount: 10 } }));
+    const { body, headers } = lastWebhook();
+
+    await expect(
+      receiver.receive(body.replace('"amount":10', '"amount":1'), headers),
+    ).rejects.toThrow(
+      expect.objectContaining({
+        code: 'INVALID_WEBHOOK_SIGNATURE',
+        message: 'Invalid approval webhook: Invalid signature',
+      }),
+    );
+
+    await receiver.receive(body, headers);
+    await expect(receiver.receive(body, headers)).rejects.toThrow(
+      expect.objectContaining({ code: 'DUPLICATE_NONCE' }),
+    );
+  });
+
+  it('should reject signed bodies that are not an approval request for their request ID', async () => {
+    const agent = new WebhookSecurity({ signingKey: agentKeys.signingKey });
+    const body = JSON.stringify({ type: 'approval_request', request: { id: 'other' } });
+
+    await expect(receiver.receive(body, agent.generateHeaders(body, 'req-1'))).rejects.toThrow(
+      expect.objectContaining({ code: 'INVALID_WEBHOOK_PAYLOAD' }),
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { InMemoryApprovalStore, FileApprovalStore } from '../../../src/lib/approval-store.js';
+import { createMockToolCall } from '../../helpers/index.js';
+import type { ApprovalRequest, ApprovalStore } from '../../../src/types.js';
+
+describe('Approval stores', () => {
+  let testDir: string;
+
+  const request: ApprovalRequest = {
+    id: 'request-1',
+    toolCall: createMockToolCall(),
+    timestamp: '2024-01-01T00:00:00.000Z',
+    expiresAt: '2024-01-01T00:30:00.000Z',
+  };
+  const response = {
+    approved: true,
+    reason: 'Looks good',
+    approvedBy: 'reviewer',
+    responseTime: 1500,
+  };
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'agentguard-approval-store-'));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe.each([
+    ['InMemoryApprovalStore', () => new InMemoryApprovalStore()],
+    ['FileApprovalStore', () => new FileApprovalStore(join(testDir, 'approvals.json'))],
+  ] as Array<[string, () => ApprovalStore]>)('%s', (_name, createStore) => {
+    let store: ApprovalStore;
+
+    beforeEach(() => {
+      store = createStore();
+    });
+
+    it('should save, list and delete requests', async () => {
+      await store.saveRequest(request);
+
+      expect(await store.getRequest('request-1')).toEqual({ request });
+      expect(await store.listRequests()).toEqual([{ request }]);
+
+      await store.deleteRequest('request-1');
+
+      expect(await store.getRequest('request-1')).toBeUndefined();
+      expect(await store.listRequests()).toEqual([]);
+    });
+
+    it('should attach responses to known requests only', async () => {
+      await store.saveRequest(request);
+
+      await store.saveResponse('request-1', response);
+      await store.saveResponse('unknown', response);
+
+      expect(await store.getRequest('request-1')).toEqual({ request, response });
+      expect(await store.getRequest('unknown')).toBeUndefined();
+    });
+
+    it('should reject nonces that were already recorded', async () => {
+      expect(await store.addNonce('nonce-1', 1000)).toBe(true);
+      expect(await store.addNonce('nonce-1', 2000)).toBe(false);
+    });
+
+    it('should prune old nonces', async () => {
+      await store.addNonce('old', 1000);
+      await store.addNonce('new', 5000);
+
+      expect(await store.pruneNonces(2000)).toBe(1);
+      expect(await store.addNonce('old', 6000)).toBe(true);
+      expect(await store.addNonce('new', 6000)).toBe(false);
+    });
+  });
+
+  describe('FileApprovalStore', () => {
+    it('should share state between instances using the same file', async () => {
+      const path = join(testDir, 'approvals.json');
+
+      const first = new FileApprovalStore(path);
+      await first.saveRequest(request);
+      await first.saveResponse('request-1', response);
+      await first.addNonce('nonce-1', Date.now());
+
+      const second = new FileApprovalStore(path);
+      expect(await second.getRequest('request-1')).toEqual({ request, response });
+      expect(await second.addNonce('nonce-1', Date.now())).toBe(false);
+    });
+
+    it('should serialize concurrent updates', async () => {
+      const store = new FileApprovalStore(join(testDir, 'approvals.json'));
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) => store.saveRequest({ ...request, id: `request-${i}` })),
+      );
+
+      expect(await store.listRequests()).toHaveLength(10);
+      expect(await readdir(testDir)).toEqual(['approvals.json']);
+    });
+  });
+});
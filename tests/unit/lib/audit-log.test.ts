@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuditLog } from '../../../src/lib/audit-log.js';
+import { Logger } from '../../../src/lib/logger.js';
+import { createMockToolCall } from '../../helpers/index.js';
+
+describe('AuditLog', () => {
+  const logger = new Logger({ enabled: false });
+  let testDir: string;
+  let logPath: string;
+
+  const record = (log: AuditLog, toolName: string) =>
+    log.record({
+      mode: 'enforce',
+      toolCall: createMockToolCall({ toolName }),
+      result: { decision: 'ALLOW', reason: 'No matching rules found, using default action' },
+      outcome: 'ALLOWED',
+    });
+
+  const readLines = async (): Promise<string[]> =>
+    (await readFile(logPath, 'utf-8')).split('\n').filter(Boolean);
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `agentguard-audit-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    logPath = join(testDir, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('record()', () => {
+    it('should append JSONL entries linked by hash', async () => {
+      const log = new AuditLog(logPath, logger);
+
+      const first = await record(log, 'read_file');
+      const second = await record(log, 'write_file');
+
+      expect(first.sequence).toBe(1);
+      expect(first.previousHash).toBe('0'.repeat(64));
+      expect(second.sequence).toBe(2);
+      expect(second.previousHash).toBe(first.hash);
+
+      const lines = await readLines();
+      expect(lines.map(line => JSON.parse(line))).toEqual([first, second]);
+    });
+
+    it('should timestamp entries by the given clock', async () => {
+      const log = new AuditLog(logPath, logger, () => new Date('2027-01-06T10:00:00.000Z'));
+
+      await expect(record(log, 'read_file')).resolves.toMatchObject({
+        timestamp: '2027-01-06T10:00:00.000Z',
+      });
+    });
+
+    it('should keep entries in order when written concurrently', async () => {
+      const log = new AuditLog(logPath, logger);
+
+      await Promise.all(Array.from({ length: 10 }, (_, i) => record(log, `tool-${i}`)));
+
+      const lines = await readLines();
+      expect(lines.map(line => JSON.parse(line).sequence)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      expect((await AuditLog.verify(logPath)).valid).toBe(true);
+    });
+
+    it('should continue the chain of an existing log', async () => {
+      const last = await record(new AuditLog(logPath, logger), 'read_file');
+
+      const resumed = await record(new AuditLog(logPath, logger), 'write_file');
+
+      expect(resumed.sequence).toBe(2);
+      expect(resumed.previousHash).toBe(last.hash);
+      expect((await AuditLog.verify(logPath)).valid).toBe(true);
+    });
+
+    it('should refuse to continue a log whose last entry is unreadable', async () => {
+      await writeFile(logPath, '{"sequence": 1, "hash": \n');
+
+      await expect(record(new AuditLog(logPath, logger), 'read_file')).rejects.toMatchObject({
+        code: 'AUDIT_LOG_CORRUPT',
+      });
+    });
+  });
+
+  describe('verify()', () => {
+    beforeEach(async () => {
+      const log = new AuditLog(logPath, logger);
+      for (const toolName of ['a', 'b', 'c', 'd']) {
+        await record(log, toolName);
+      }
+    });
+
+    it('should accept an untouched log', async () => {
+      const result = await AuditLog.verify(logPath);
+      const lines = await readLines();
+
+      expect(result).toEqual({
+        valid: true,
+        entryCount: 4,
+        lastHash: JSON.parse(lines[3]!).hash,
+        issues: [],
+      });
+    });
+
+    it('should detect an edited entry', async () => {
+      const lines = await readLines();
+      lines[1] = lines[1]!.replace('"outcome":"ALLOWED"', '"outcome":"BLOCKED"');
+      await writeFile(logPath, `${lines.join('\n')}\n`);
+
+      const result = await AuditLog.verify(logPath);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        {
+          line: 2,
+          sequence: 2,
+          reason: 'Entry hash does not match its contents (entry was modified)',
+        },
+      ]);
+    });
+
+    it('should detect an edited entry whose hash was recomputed', async () => {
+      const lines = await readLines();
+      const { hash: _hash, ...entry } = JSON.parse(lines[1]!);
+      const tampered = { ...entry, outcome: 'BLOCKED' };
+      lines[1] = JSON.stringify({
+        ...tampered,
+        hash: createHash('sha256').update(JSON.stringify(tampered)).digest('hex'),
+      });
+      await writeFile(logPath, `${lines.join('\n')}\n`);
+
+      const result = await AuditLog.verify(logPath);
+
+      expect(result.issues).toEqual([
+        { line: 3, sequence: 3, reason: 'Previous hash does not match the preceding entry' },
+      ]);
+    });
+
+    it('should detect a deleted entry', async () => {
+      const lines = await readLines();
+      lines.splice(1, 1);
+      await writeFile(logPath, `${lines.join('\n')}\n`);
+
+      const result = await AuditLog.verify(logPath);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        {
+          line: 2,
+          sequence: 3,
+          reason: 'Expected sequence 2 but found 3 (entries were removed)',
+        },
+      ]);
+    });
+
+    it('should detect reordered entries', async () => {
+      const lines = await readLines();
+      [lines[1], lines[2]] = [lines[2]!, lines[1]!];
+      await writeFile(logPath, `${lines.join('\n')}\n`);
+
+      const result = await AuditLog.verify(logPath);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues.map(issue => issue.line)).toEqual([2, 3, 4]);
+    });
+
+    it('should report malformed lines', async () => {
+      const lines = await readLines();
+      lines[2] = 'not json';
+      await writeFile(logPath, `${lines.join('\n')}\n`);
+
+      const result = await AuditLog.verify(logPath);
+
+      expect(result.issues[0]).toEqual({ line: 3, reason: 'Entry is not valid JSON' });
+    });
+  });
+});
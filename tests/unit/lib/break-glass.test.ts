@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { BreakGlass, grantCovers } from '../../../src/lib/break-glass.js';
+import { createMockToolCall } from '../../helpers/index.js';
+
+describe('BreakGlass', () => {
+  const secret = 'break-glass-secret-that-is-long-enough';
+  const breakGlass = new BreakGlass(secret);
+  const issuedAt = new Date('2024-01-01T00:00:00.000Z');
+
+  const issue = () =>
+    breakGlass.issue(
+      {
+        toolNames: ['deploy'],
+        issuedBy: 'alice',
+        reason: 'Incident 42',
+        ttl: 30 * 60 * 1000,
+      },
+      issuedAt,
+    );
+
+  it('should require a secret of at least 32 characters', () => {
+    expect(() => new BreakGlass('short')).toThrow(
+      'Break-glass secret must be at least 32 characters',
+    );
+  });
+
+  it('should verify the grants it issues', () => {
+    const grant = breakGlass.verify(issue(), new Date('2024-01-01T00:10:00.000Z'));
+
+    expect(grant).toEqual({
+      id: expect.any(String),
+      toolNames: ['deploy'],
+      issuedBy: 'alice',
+      reason: 'Incident 42',
+      issuedAt: '2024-01-01T00:00:00.000Z',
+      expiresAt: '2024-01-01T00:30:00.000Z',
+    });
+  });
+
+  it('should reject tampered tokens and tokens signed with another secret', () => {
+    const [payload, signature] = issue().split('.');
+    const widened = Buffer.from(
+      JSON.stringify({
+        ...JSON.parse(Buffer.from(payload!, 'base64url').toString()),
+        toolNames: ['drop_database'],
+      }),
+    ).toString('base64url');
+    const other = new BreakGlass('another-secret-that-is-long-enough!!');
+
+    expect(() => breakGlass.verify(`${widened}.${signature}`, issuedAt)).toThrow(
+      'Break-glass token signature is invalid',
+    );
+    expect(() => other.verify(issue(), issuedAt)).toThrow('Break-glass token signature is invalid');
+    expect(() => breakGlass.verify('not-a-token', issuedAt)).toThrow('Malformed break-glass token');
+  });
+
+  it('should reject expired tokens', () => {
+    expect(() => breakGlass.verify(issue(), new Date('2024-01-01T00:30:00.000Z'))).toThrow(
+      expect.objectContaining({ code: 'BREAK_GLASS_TOKEN_EXPIRED' }),
+    );
+  });
+
+  it('should only issue scoped grants with a positive ttl', () => {
+    expect(() => breakGlass.issue({ issuedBy: 'alice', reason: 'Incident', ttl: 1000 })).toThrow(
+      'A break-glass grant must be scoped to an agent or tools',
+    );
+    expect(() =>
+      breakGlass.issue({ agentId: 'bot', issuedBy: 'alice', reason: 'Incident', ttl: 0 }),
+    ).toThrow('A break-glass grant must last a positive number of milliseconds');
+  });
+
+  describe('grantCovers()', () => {
+    it('should require every scope of the grant to match', () => {
+      const grant = breakGlass.verify(
+        breakGlass.issue(
+          {
+            agentId: 'ops-bot',
+            toolNames: ['deploy', 'restart'],
+            issuedBy: 'alice',
+            reason: 'Incident 42',
+            ttl: 1000,
+          },
+          issuedAt,
+        ),
+        issuedAt,
+      );
+
+      expect(
+        grantCovers(grant, createMockToolCall({ toolName: 'deploy', agentId: 'ops-bot' })),
+      ).toBe(true);
+      expect(grantCovers(grant, createMockToolCall({ toolName: 'deploy', agentId: 'other' }))).toBe(
+        false,
+      );
+      expect(
+        grantCovers(grant, createMockToolCall({ toolName: 'delete', agentId: 'ops-bot' })),
+      ).toBe(false);
+    });
+  });
+});
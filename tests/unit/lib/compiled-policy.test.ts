@@ -0,0 +1,420 @@
+import { describe, it, expect } from 'vitest';
+import { CompiledPolicy, extractFieldValue } from '../../../src/lib/compiled-policy.js';
+import { Logger } from '../../../src/lib/logger.js';
+import { createMockPolicy, createMockToolCall } from '../../helpers/index.js';
+import type {
+  PolicyCondition,
+  PolicyEvaluationContext,
+  PolicyRule,
+  Schedule,
+  SequenceCondition,
+  TaintCondition,
+} from '../../../src/types.js';
+
+describe('CompiledPolicy', () => {
+  const logger = new Logger({ enabled: false });
+
+  const rule = (name: string, overrides?: Partial<PolicyRule>): PolicyRule => ({
+    name,
+    action: 'ALLOW',
+    conditions: [],
+    ...overrides,
+  });
+
+  const contextFor = (toolName: string, parameters: Record<string, unknown> = {}) => {
+    const policy = createMockPolicy();
+    return {
+      toolCall: createMockToolCall({ toolName, parameters }),
+      policy,
+      timestamp: new Date().toISOString(),
+    } satisfies PolicyEvaluationContext;
+  };
+
+  describe('rule ordering', () => {
+    it('should sort rules by priority and keep declaration order for ties', () => {
+      const compiled = new CompiledPolicy(
+        createMockPolicy({
+          rules: [
+            rule('low', { priority: 1 }),
+            rule('high-first', { priority: 10 }),
+            rule('default'),
+            rule('high-second', { priority: 10 }),
+          ],
+        }),
+        logger,
+      );
+
+      expect(compiled.rules.map(r => r.name)).toEqual([
+        'high-first',
+        'high-second',
+        'low',
+        'default',
+      ]);
+    });
+  });
+
+  describe('getCandidateRules()', () => {
+    const compiled = new CompiledPolicy(
+      createMockPolicy({
+        rules: [
+          rule('read-only', {
+            priority: 5,
+            conditions: [{ field: 'toolCall.toolName', operator: 'equals', value: 'read' }],
+          }),
+          rule('read-or-list', {
+            priority: 4,
+            conditions: [{ field: 'toolCall.toolName', operator: 'in', value: ['read', 'list'] }],
+          }),
+          rule('nested-write', {
+            priority: 3,
+            conditions: [
+              { allOf: [{ field: 'toolCall.toolName', operator: 'equals', value: 'write' }] },
+            ],
+          }),
+          rule('any-delete', {
+            priority: 6,
+            conditions: [{ field: 'toolCall.toolName', operator: 'contains', value: 'delete' }],
+          }),
+          rule('either', {
+            priority: 2,
+            conditions: [
+              {
+                anyOf: [
+                  { field: 'toolCall.toolName', operator: 'equals', value: 'read' },
+                  { field: 'toolCall.toolName', operator: 'equals', value: 'other' },
+                ],
+              },
+            ],
+          }),
+        ],
+      }),
+      logger,
+    );
+
+    it('should return indexed rules for the tool merged with unindexed rules in order', () => {
+      expect(compiled.getCandidateRules('read').map(r => r.name)).toEqual([
+        'any-delete',
+        'read-only',
+        'read-or-list',
+        'either',
+      ]);
+      expect(compiled.getCandidateRules('list').map(r => r.name)).toEqual([
+        'any-delete',
+        'read-or-list',
+        'either',
+      ]);
+      expect(compiled.getCandidateRules('write').map(r => r.name)).toEqual([
+        'any-delete',
+        'nested-write',
+        'either',
+      ]);
+    });
+
+    it('should return only unindexed rules for unknown tools', () => {
+      expect(compiled.getCandidateRules('drop_table').map(r => r.name)).toEqual([
+        'any-delete',
+        'either',
+      ]);
+      expect(compiled.getIndexedRuleCount()).toBe(3);
+    });
+  });
+
+  describe('regex compilation', () => {
+    it('should reject invalid regex patterns at compile time', () => {
+      expect(
+        () =>
+          new CompiledPolicy(
+            createMockPolicy({
+              rules: [
+                rule('bad', {
+                  conditions: [
+                    { not: { field: 'toolCall.toolName', operator: 'regex', value: '(' } },
+                  ],
+                }),
+              ],
+            }),
+            logger,
+          ),
+      ).toThrow('Rule "bad" has an invalid regex');
+    });
+
+    it('should evaluate precompiled regex conditions', async () => {
+      const regexRule = rule('deploys', {
+        conditions: [{ field: 'toolCall.toolName', operator: 'regex', value: '^(deploy|scale)_' }],
+      });
+      const compiled = new CompiledPolicy(createMockPolicy({ rules: [regexRule] }), logger);
+
+      await expect(compiled.evaluateRule(regexRule, contextFor('deploy_api'))).resolves.toBe(true);
+      await expect(compiled.evaluateRule(regexRule, contextFor('read_api'))).resolves.toBe(false);
+    });
+  });
+
+  describe('previousCall conditions', () => {
+    const history = [
+      { toolName: 'run_tests', status: 'failed', timestamp: '2024-01-01T00:00:00.000Z' },
+      { toolName: 'run_tests', status: 'succeeded', timestamp: '2024-01-01T00:10:00.000Z' },
+      { toolName: 'read_file', status: 'succeeded', timestamp: '2024-01-01T00:50:00.000Z' },
+    ] as const;
+
+    const withHistory = (timestamp: string): PolicyEvaluationContext => ({
+      ...contextFor('deploy'),
+      timestamp,
+      history,
+    });
+
+    it('should match earlier calls by tool name, status and age', async () => {
+      const compiled = new CompiledPolicy(createMockPolicy(), logger);
+      const matches = (previousCall: SequenceCondition['previousCall']) =>
+        compiled.evaluateRule(
+          rule('sequence', { conditions: [{ previousCall }] }),
+          withHistory('2024-01-01T01:00:00.000Z'),
+        );
+
+      await expect(matches({ toolName: 'run_tests' })).resolves.toBe(true);
+      await expect(matches({ toolName: 'run_tests', status: 'succeeded' })).resolves.toBe(true);
+      await expect(matches({ toolName: 'run_tests', within: 1800000 })).resolves.toBe(false);
+      await expect(matches({ toolName: 'read_file', within: 1800000 })).resolves.toBe(true);
+      await expect(matches({ toolName: 'deploy' })).resolves.toBe(false);
+    });
+
+    it('should explain which earlier call matched', () => {
+      const explained = rule('tested', {
+        conditions: [{ previousCall: { toolName: 'run_tests', status: 'failed' } }],
+      });
+      const compiled = new CompiledPolicy(createMockPolicy({ rules: [explained] }), logger);
+
+      expect(
+        compiled.explainRule(explained, withHistory('2024-01-01T01:00:00.000Z')).conditions,
+      ).toEqual([
+        {
+          type: 'previousCall',
+          toolName: 'run_tests',
+          status: 'failed',
+          matchedCall: history[0],
+          passed: true,
+        },
+      ]);
+    });
+  });
+
+  describe('taint conditions', () => {
+    const taintedFields = [
+      { field: 'toolCall.parameters.body', label: 'web_fetch', fragment: 'Ignore previ' },
+      { field: 'toolCall.parameters.to', label: 'read_email', fragment: 'attacker@exa' },
+    ];
+
+    const withTaint: PolicyEvaluationContext = { ...contextFor('send_email'), taintedFields };
+
+    it('should match tainted parameters by field and label', async () => {
+      const compiled = new CompiledPolicy(createMockPolicy(), logger);
+      const matches = (taint: TaintCondition['taint']) =>
+        compiled.evaluateRule(rule('taint', { conditions: [{ taint }] }), withTaint);
+
+      await expect(matches({})).resolves.toBe(true);
+      await expect(matches({ field: 'toolCall.parameters.body' })).resolves.toBe(true);
+      await expect(matches({ field: 'toolCall.parameters.subject' })).resolves.toBe(false);
+      await expect(matches({ label: 'read_email' })).resolves.toBe(true);
+      await expect(
+        matches({ field: 'toolCall.parameters.body', label: 'read_email' }),
+      ).resolves.toBe(false);
+      await expect(
+        compiled.evaluateRule(
+          rule('taint', { conditions: [{ taint: {} }] }),
+          contextFor('send_email'),
+        ),
+      ).resolves.toBe(false);
+    });
+
+    it('should explain which parameters were tainted', () => {
+      const explained = rule('untrusted-body', {
+        conditions: [{ taint: { field: 'toolCall.parameters.body' } }],
+      });
+      const compiled = new CompiledPolicy(createMockPolicy({ rules: [explained] }), logger);
+
+      expect(compiled.explainRule(explained, withTaint).conditions).toEqual([
+        {
+          type: 'taint',
+          field: 'toolCall.parameters.body',
+          matches: [taintedFields[0]],
+          passed: true,
+        },
+      ]);
+    });
+  });
+
+  describe('schedule and window conditions', () => {
+    const businessHours: Schedule = {
+      timezone: 'America/New_York',
+      days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+      hours: { from: '09:00', to: '17:00' },
+    };
+
+    const policy = createMockPolicy({
+      windows: {
+        maintenance: [
+          { days: ['sat'], hours: { from: '02:00', to: '06:00' } },
+          { dates: { from: '2024-12-24', to: '2024-12-26' } },
+        ],
+      },
+    });
+
+    const at = (timestamp: string): PolicyEvaluationContext => ({
+      ...contextFor('deploy'),
+      policy,
+      timestamp,
+    });
+
+    it('should match the evaluation timestamp against schedules and named windows', async () => {
+      const compiled = new CompiledPolicy(policy, logger);
+      const matches = (condition: PolicyCondition, timestamp: string) =>
+        compiled.evaluateRule(rule('timed', { conditions: [condition] }), at(timestamp));
+
+      await expect(matches({ schedule: businessHours }, '2024-03-11T14:00:00.000Z')).resolves.toBe(
+        true,
+      );
+      await expect(matches({ schedule: businessHours }, '2024-03-11T22:00:00.000Z')).resolves.toBe(
+        false,
+      );
+      await expect(matches({ window: 'maintenance' }, '2024-03-09T03:00:00.000Z')).resolves.toBe(
+        true,
+      );
+      await expect(matches({ window: 'maintenance' }, '2024-12-25T12:00:00.000Z')).resolves.toBe(
+        true,
+      );
+      await expect(matches({ window: 'maintenance' }, '2024-03-11T14:00:00.000Z')).resolves.toBe(
+        false,
+      );
+      await expect(matches({ window: 'undefined' }, '2024-03-09T03:00:00.000Z')).resolves.toBe(
+        false,
+      );
+    });
+
+    it('should explain the local time and the matching window schedule', () => {
+      const explained = rule('timed', {
+        conditions: [{ schedule: businessHours }, { window: 'maintenance' }],
+      });
+      const compiled = new CompiledPolicy(policy, logger);
+
+      expect(compiled.explainRule(explained, at('2024-12-25T12:00:00.000Z')).conditions).toEqual([
+        {
+          type: 'schedule',
+          schedule: businessHours,
+          localTime: {
+            date: '2024-12-25',
+            time: '07:00',
+            day: 'wed',
+            timezone: 'America/New_York',
+          },
+          passed: false,
+        },
+        { type: 'window', window: 'maintenance', matchedSchedule: 1, passed: true },
+      ]);
+    });
+  });
+
+  describe('validity periods', () => {
+    const temporary = rule('temporary', {
+      validFrom: '2024-01-01T00:00:00Z',
+      validUntil: '2024-01-31T23:59:59+01:00',
+    });
+    const compiled = new CompiledPolicy(createMockPolicy({ rules: [temporary] }), logger);
+
+    const at = (timestamp: string): PolicyEvaluationContext => ({
+      ...contextFor('deploy'),
+      timestamp,
+    });
+
+    it('should only match rules between validFrom and validUntil', async () => {
+      await expect(compiled.evaluateRule(temporary, at('2023-12-31T23:59:59.000Z'))).resolves.toBe(
+        false,
+      );
+      await expect(compiled.evaluateRule(temporary, at('2024-01-15T00:00:00.000Z'))).resolves.toBe(
+        true,
+      );
+      await expect(compiled.evaluateRule(temporary, at('2024-01-31T23:00:00.000Z'))).resolves.toBe(
+        false,
+      );
+    });
+
+    it('should explain why a rule is inactive', () => {
+      expect(compiled.explainRule(temporary, at('2023-12-31T00:00:00.000Z'))).toMatchObject({
+        matched: false,
+        inactive: 'notYetValid',
+      });
+      expect(compiled.explainRule(temporary, at('2024-02-01T00:00:00.000Z'))).toMatchObject({
+        matched: false,
+        inactive: 'expired',
+      });
+      expect(compiled.explainRule(temporary, at('2024-01-15T00:00:00.000Z'))).not.toHaveProperty(
+        'inactive',
+      );
+    });
+  });
+
+  describe('scopes', () => {
+    const scoped = rule('billing-only', { scope: { agents: ['billing-*'] } });
+    const compiled = new CompiledPolicy(
+      createMockPolicy({ rules: [scoped], scope: { roles: ['operator'] } }),
+      logger,
+    );
+
+    const callFrom = (agentId: string): PolicyEvaluationContext => ({
+      ...contextFor('charge'),
+      toolCall: createMockToolCall({ toolName: 'charge', agentId }),
+    });
+
+    it('should only match rules for calls within their scope', async () => {
+      await expect(compiled.evaluateRule(scoped, callFrom('billing-1'))).resolves.toBe(true);
+      await expect(compiled.evaluateRule(scoped, callFrom('support-1'))).resolves.toBe(false);
+      expect(compiled.explainRule(scoped, callFrom('support-1'))).toMatchObject({
+        matched: false,
+        outOfScope: true,
+      });
+    });
+
+    it('should check calls against the policy scope', () => {
+      expect(compiled.appliesTo(createMockToolCall({ metadata: { role: 'operator' } }))).toBe(true);
+      expect(compiled.appliesTo(createMockToolCall())).toBe(false);
+    });
+  });
+
+  describe('explainRule()', () => {
+    it('should report the rule priority and match', () => {
+      const explained = rule('large', {
+        priority: 7,
+        conditions: [{ field: 'toolCall.parameters.amount', operator: 'gte', value: 10 }],
+      });
+      const compiled = new CompiledPolicy(createMockPolicy({ rules: [explained] }), logger);
+
+      expect(compiled.explainRule(explained, contextFor('pay', { amount: 10 }))).toEqual({
+        rule: explained,
+        priority: 7,
+        matched: true,
+        conditions: [
+          {
+            type: 'field',
+            field: 'toolCall.parameters.amount',
+            operator: 'gte',
+            expected: 10,
+            actual: 10,
+            passed: true,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('extractFieldValue()', () => {
+    it('should resolve nested fields and array indexes', () => {
+      const context = contextFor('tool', {
+        items: [{ id: 'a' }, { id: 'b' }],
+        user: { role: 'x' },
+      });
+
+      expect(extractFieldValue('toolCall.parameters.items[1].id', context)).toBe('b');
+      expect(extractFieldValue('toolCall.parameters.user.role', context)).toBe('x');
+      expect(extractFieldValue('toolCall.parameters.items[5].id', context)).toBeUndefined();
+      expect(extractFieldValue('toolCall.parameters.missing.deep', context)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryCounterStore, KeyValueCounterStore } from '../../../src/lib/counter-store.js';
+import type { CounterClient, CounterStore } from '../../../src/types.js';
+
+// Stand-in for a Redis client: a map with expiring keys
+function createMockClient(): CounterClient & { pexpire: ReturnType<typeof vi.fn> } {
+  const values = new Map<string, { value: number; expiresAt: number }>();
+  const read = (key: string) => {
+    const entry = values.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry : undefined;
+  };
+
+  return {
+    incrby: async (key, amount) => {
+      const entry = read(key) ?? { value: 0, expiresAt: Infinity };
+      entry.value += amount;
+      values.set(key, entry);
+      return entry.value;
+    },
+    pexpire: vi.fn(async (key: string, milliseconds: number) => {
+      const entry = read(key);
+      if (entry) {
+        entry.expiresAt = Date.now() + milliseconds;
+      }
+    }),
+    get: async key => {
+      const entry = read(key);
+      return entry ? String(entry.value) : null;
+    },
+  };
+}
+
+describe('Counter stores', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe.each([
+    ['InMemoryCounterStore', () => new InMemoryCounterStore()],
+    ['KeyValueCounterStore', () => new KeyValueCounterStore(createMockClient())],
+  ] as Array<[string, () => CounterStore]>)('%s', (_name, createStore) => {
+    let store: CounterStore;
+
+    beforeEach(() => {
+      store = createStore();
+    });
+
+    it('should count increments per key', async () => {
+      expect(await store.increment('a', 1, 1000)).toBe(1);
+      expect(await store.increment('a', 2, 1000)).toBe(3);
+      expect(await store.increment('b', 1, 1000)).toBe(1);
+
+      expect(await store.get('a')).toBe(3);
+      expect(await store.get('missing')).toBe(0);
+    });
+
+    it('should expire counters after their window', async () => {
+      await store.increment('a', 1, 1000);
+      vi.advanceTimersByTime(600);
+      await store.increment('a', 1, 1000);
+
+      vi.advanceTimersByTime(500);
+
+      expect(await store.get('a')).toBe(0);
+      expect(await store.increment('a', 1, 1000)).toBe(1);
+    });
+  });
+
+  describe('InMemoryCounterStore', () => {
+    it('should expire counters by the given clock', async () => {
+      let now = new Date('2027-01-06T10:00:00.000Z');
+      const store = new InMemoryCounterStore(() => now);
+
+      await store.increment('a', 1, 1000);
+      vi.advanceTimersByTime(5000);
+      expect(await store.get('a')).toBe(1);
+
+      now = new Date('2027-01-06T10:00:01.000Z');
+      expect(await store.get('a')).toBe(0);
+    });
+  });
+
+  describe('KeyValueCounterStore', () => {
+    it('should prefix keys and set the expiry only when creating a counter', async () => {
+      const client = createMockClient();
+      const store = new KeyValueCounterStore(client, 'test:');
+
+      await store.increment('a', 1, 1000);
+      await store.increment('a', 1, 1000);
+
+      expect(client.pexpire).toHaveBeenCalledTimes(1);
+      expect(client.pexpire).toHaveBeenCalledWith('test:a', 1000);
+      expect(await client.get('test:a')).toBe('2');
+    });
+
+    it('should set the expiry when releasing', async () => {
+      const client = createMockClient();
+      const store = new KeyValueCounterStore(client, 'test:');
+      await store.increment('a', 5, 1000);
+      await store.increment('a', 5, 1000);
+
+      await store.increment('a', -5, 1000);
+
+      expect(client.pexpire).toHaveBeenCalledTimes(2);
+      expect(client.pexpire).toHaveBeenLastCalledWith('test:a', 1000);
+    });
+  });
+});
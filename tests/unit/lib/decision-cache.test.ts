@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DecisionCache, collectReferencedFields } from '../../../src/lib/decision-cache.js';
+import { createMockPolicy } from '../../helpers/index.js';
+import type { GuardResult } from '../../../src/types.js';
+
+describe('DecisionCache', () => {
+  const allow: GuardResult = { decision: 'ALLOW', reason: 'allowed' };
+  const block: GuardResult = { decision: 'BLOCK', reason: 'blocked' };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('get() / set()', () => {
+    let cache: DecisionCache;
+
+    beforeEach(() => {
+      cache = new DecisionCache({ ttl: 1000, maxSize: 2 });
+    });
+
+    it('should return cached decisions and count hits and misses', () => {
+      expect(cache.get('a')).toBeUndefined();
+
+      cache.set('a', allow);
+
+      expect(cache.get('a')).toBe(allow);
+      expect(cache.getStats()).toEqual({ hits: 1, misses: 1, evictions: 0, size: 1, hitRate: 0.5 });
+    });
+
+    it('should expire entries after the TTL', () => {
+      vi.useFakeTimers();
+      cache.set('a', allow);
+
+      vi.advanceTimersByTime(1001);
+
+      expect(cache.get('a')).toBeUndefined();
+      expect(cache.getStats().size).toBe(0);
+    });
+
+    it('should expire entries by the given clock', () => {
+      let now = new Date('2027-01-06T10:00:00.000Z');
+      cache = new DecisionCache({ ttl: 1000, maxSize: 2 }, () => now);
+      cache.set('a', allow);
+
+      expect(cache.get('a')).toBe(allow);
+      now = new Date('2027-01-06T10:00:01.001Z');
+      expect(cache.get('a')).toBeUndefined();
+    });
+
+    it('should evict the least recently used entry when full', () => {
+      cache.set('a', allow);
+      cache.set('b', block);
+      cache.get('a');
+      cache.set('c', allow);
+
+      expect(cache.get('b')).toBeUndefined();
+      expect(cache.get('a')).toBe(allow);
+      expect(cache.get('c')).toBe(allow);
+      expect(cache.getStats().evictions).toBe(1);
+    });
+
+    it('should not cache when maxSize is zero', () => {
+      cache = new DecisionCache({ ttl: 1000, maxSize: 0 });
+      cache.set('a', allow);
+
+      expect(cache.get('a')).toBeUndefined();
+    });
+
+    it('should keep counters when cleared', () => {
+      cache.set('a', allow);
+      cache.get('a');
+      cache.clear();
+
+      expect(cache.getStats()).toMatchObject({ hits: 1, size: 0 });
+    });
+  });
+
+  describe('createKey()', () => {
+    it('should ignore object key order', () => {
+      const first = DecisionCache.createKey([['toolCall.parameters', { a: 1, b: { c: 2, d: 3 } }]]);
+      const second = DecisionCache.createKey([
+        ['toolCall.parameters', { b: { d: 3, c: 2 }, a: 1 }],
+      ]);
+
+      expect(first).toBe(second);
+    });
+
+    it('should distinguish different values', () => {
+      expect(DecisionCache.createKey([['toolCall.toolName', 'read']])).not.toBe(
+        DecisionCache.createKey([['toolCall.toolName', 'write']]),
+      );
+      expect(DecisionCache.createKey([['toolCall.parameters.at', new Date(0)]])).not.toBe(
+        DecisionCache.createKey([['toolCall.parameters.at', new Date(1)]]),
+      );
+    });
+
+    it('should return null for values that cannot be serialized', () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      expect(DecisionCache.createKey([['toolCall.parameters', circular]])).toBeNull();
+      expect(DecisionCache.createKey([['toolCall.parameters', new Map([['a', 1]])]])).toBeNull();
+    });
+  });
+
+  describe('collectReferencedFields()', () => {
+    it('should collect fields from nested condition groups', () => {
+      const policy = createMockPolicy({
+        rules: [
+          {
+            name: 'rule',
+            action: 'BLOCK',
+            conditions: [
+              { field: 'toolCall.toolName', operator: 'equals', value: 'x' },
+              {
+                anyOf: [
+                  { not: { field: 'toolCall.parameters.env', operator: 'equals', value: 'dev' } },
+                  { allOf: [{ field: 'toolCall.agentId', operator: 'equals', value: 'a' }] },
+                ],
+              },
+            ],
+          },
+          {
+            name: 'other',
+            action: 'ALLOW',
+            conditions: [{ field: 'toolCall.toolName', operator: 'contains', value: 'y' }],
+          },
+        ],
+      });
+
+      expect(collectReferencedFields(policy)).toEqual([
+        'toolCall.agentId',
+        'toolCall.parameters.env',
+        'toolCall.toolName',
+      ]);
+    });
+
+    it('should include the fields policy and rule scopes read', () => {
+      const policy = createMockPolicy({
+        scope: { agents: ['billing-*'] },
+        rules: [{ name: 'rule', action: 'BLOCK', conditions: [], scope: { tags: ['pii'] } }],
+      });
+
+      expect(collectReferencedFields(policy)).toEqual([
+        'toolCall.agentId',
+        'toolCall.metadata.tags',
+      ]);
+    });
+  });
+});
@@ -1,5 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import { HITLManager } from '../../../src/lib/hitl-manager.js';
+import { FileApprovalStore } from '../../../src/lib/approval-store.js';
+import { WebhookSecurity } from '../../../src/lib/webhook-security.js';
 import { Logger } from '../../../src/lib/logger.js';
 import { ApprovalTimeoutError, AgentGuardError } from '../../../src/lib/errors.js';
 import { createMockToolCall, createMockApprovalResponse, delay } from '../../helpers/index.js';
@@ -156,6 +161,44 @@ describe('HITLManager', () => {
     });
   });
 
+  describe('approvers', () => {
+    it('should send requests to the approver instead of the webhook', async () => {
+      const requestApproval = vi.fn().mockResolvedValue(undefined);
+      manager = new HITLManager({ url: 'https://example.com/webhook' }, logger, undefined, {
+        requestApproval,
+      });
+
+      const requestId = await manager.createApprovalRequest(createMockToolCall(), {
+        rule: 'confirm',
+      });
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(requestApproval).toHaveBeenCalledWith(
+        expect.objectContaining({ id: requestId, metadata: { rule: 'confirm' } }),
+        expect.any(Function),
+      );
+      await requestApproval.mock.calls[0]![1]({ decision: 'APPROVE', approvedBy: 'dev' });
+      await expect(manager.waitForApproval(requestId, 1000)).resolves.toMatchObject({
+        approved: true,
+        approvedBy: 'dev',
+      });
+    });
+
+    it('should fail requests the approver cannot take', async () => {
+      manager = new HITLManager(null, logger, undefined, {
+        requestApproval: vi.fn().mockRejectedValue(new Error('no terminal')),
+      });
+
+      await expect(manager.createApprovalRequest(createMockToolCall())).rejects.toThrow(
+        expect.objectContaining({
+          code: 'APPROVER_FAILED',
+          message: 'Failed to send approval request to approver: no terminal',
+        }),
+      );
+      expect(manager.getStats().pendingCount).toBe(0);
+    });
+  });
+
   describe('waitForApproval()', () => {
     beforeEach(() => {
       manager = new HITLManager({ url: 'https://example.com/webhook' }, logger);
@@ -250,6 +293,199 @@ describe('HITLManager', () => {
       const result = await approvalPromise;
       expect(result.responseTime).toBeGreaterThanOrEqual(100);
     });
+
+    it('should sign webhooks with its key and verify responses against the keyring', async () => {
+      const agentKeys = WebhookSecurity.generateKeys('agent-2024-01');
+      const serviceKeys = WebhookSecurity.generateKeys('approvals-2024-01');
+      manager = new HITLManager(
+        {
+          url: 'https://example.com/webhook',
+          security: {
+            signingKey: agentKeys.signingKey,
+            verificationKeys: [serviceKeys.verificationKey],
+          },
+        },
+        logger,
+      );
+      const service = new WebhookSecurity({
+        signingKey: serviceKeys.signingKey,
+        verificationKeys: [agentKeys.verificationKey],
+      });
+
+      const requestId = await manager.createApprovalRequest(createMockToolCall());
+      const [, init] = vi.mocked(global.fetch).mock.calls[0]!;
+      const webhookHeaders = init!.headers as Record<string, string>;
+      expect(webhookHeaders['x-agentguard-key-id']).toBe('agent-2024-01');
+      expect(service.validateResponse(init!.body as string, webhookHeaders, requestId)).toEqual({
+        valid: true,
+      });
+
+      const response = { requestId, decision: 'APPROVE' as const, approvedBy: 'user' };
+      const forged = new WebhookSecurity({ signingKey: agentKeys.signingKey });
+      await expect(
+        manager.handleApprovalResponse(
+          response,
+          forged.generateHeaders(JSON.stringify(response), requestId),
+        ),
+      ).rejects.toThrow('Invalid approval response: Unknown signing key ID: agent-2024-01');
+
+      await manager.handleApprovalResponse(
+        response,
+        service.generateHeaders(JSON.stringify(response), requestId),
+      );
+      await expect(manager.waitForApproval(requestId, 5000)).resolves.toMatchObject({
+        approved: true,
+      });
+      manager.destroy();
+    });
+
+    it('should reject responses that differ from the signed raw body', async () => {
+      const security = { signingSecret: 'hitl-raw-body-test-secret-minimum-32-characters' };
+      manager = new HITLManager({ url: 'https://example.com/webhook', security }, logger);
+      const service = new WebhookSecurity(security);
+      const requestId = await manager.createApprovalRequest(createMockToolCall());
+      const approvalPromise = manager.waitForApproval(requestId, 5000);
+
+      const rawBody = JSON.stringify({ requestId, decision: 'DENY', approvedBy: 'alice' });
+      const headers = service.generateHeaders(rawBody, requestId);
+      await expect(
+        manager.handleApprovalResponse(
+          { requestId, decision: 'APPROVE', approvedBy: 'mallory' },
+          headers,
+          rawBody,
+        ),
+      ).rejects.toThrow('Response does not match the body it was received in');
+
+      await manager.handleApprovalResponse(JSON.parse(rawBody), headers, rawBody);
+      await expect(approvalPromise).resolves.toMatchObject({
+        approved: false,
+        approvedBy: 'alice',
+      });
+      manager.destroy();
+    });
+  });
+
+  describe('approval store', () => {
+    let testDir: string;
+    let storePath: string;
+
+    beforeEach(async () => {
+      testDir = await mkdtemp(join(tmpdir(), 'agentguard-hitl-store-'));
+      storePath = join(testDir, 'approvals.json');
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should resume waiting on a request created by a previous process', async () => {
+      const previous = new HITLManager(null, logger, new FileApprovalStore(storePath));
+      const requestId = await previous.createApprovalRequest(createMockToolCall());
+      previous.destroy();
+
+      manager = new HITLManager(null, logger, new FileApprovalStore(storePath));
+      expect(await manager.getStoredApprovals()).toEqual([
+        expect.objectContaining({ id: requestId }),
+      ]);
+
+      const approvalPromise = manager.waitForApproval(requestId, 5000);
+      await delay(10);
+      await manager.handleApprovalResponse({
+        requestId,
+        decision: 'APPROVE',
+        approvedBy: 'reviewer',
+      });
+
+      await expect(approvalPromise).resolves.toMatchObject({
+        approved: true,
+        approvedBy: 'reviewer',
+      });
+      expect(await manager.getStoredApprovals()).toEqual([]);
+    });
+
+    it('should deliver responses received while no process was waiting', async () => {
+      const previous = new HITLManager(null, logger, new FileApprovalStore(storePath));
+      const requestId = await previous.createApprovalRequest(createMockToolCall());
+      await previous.handleApprovalResponse({
+        requestId,
+        decision: 'DENY',
+        reason: 'Too risky',
+        approvedBy: 'reviewer',
+      });
+
+      manager = new HITLManager(null, logger, new FileApprovalStore(storePath));
+      const result = await manager.waitForApproval(requestId, 5000);
+
+      expect(result).toMatchObject({ approved: false, reason: 'Too risky' });
+      expect(await manager.getStoredApprovals()).toEqual([]);
+    });
+
+    it('should accept responses for requests created by a previous process', async () => {
+      const previous = new HITLManager(null, logger, new FileApprovalStore(storePath));
+      const requestId = await previous.createApprovalRequest(createMockToolCall());
+
+      manager = new HITLManager(null, logger, new FileApprovalStore(storePath));
+      await manager.handleApprovalResponse({ requestId, decision: 'APPROVE', approvedBy: 'user' });
+
+      await expect(manager.waitForApproval(requestId, 5000)).resolves.toMatchObject({
+        approved: true,
+      });
+    });
+
+    it('should clean up expired requests left by a previous process', async () => {
+      const store = new FileApprovalStore(storePath);
+      await store.saveRequest({
+        id: 'expired',
+        toolCall: createMockToolCall(),
+        timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+      });
+      manager = new HITLManager(null, logger, store);
+      const current = await manager.createApprovalRequest(createMockToolCall());
+
+      expect(manager.cleanupExpiredRequests()).toBe(0);
+      await expect(manager.pruneExpiredRequests()).resolves.toBe(1);
+      expect(await manager.getStoredApprovals()).toEqual([
+        expect.objectContaining({ id: current }),
+      ]);
+    });
+
+    it('should reject nonces replayed after a restart', async () => {
+      const webhookConfig = {
+        url: 'https://example.com/webhook',
+        security: { signingSecret: 'hitl-store-test-secret-minimum-32-characters' },
+      };
+      const security = new WebhookSecurity(webhookConfig.security);
+
+      const previous = new HITLManager(webhookConfig, logger, new FileApprovalStore(storePath));
+      const firstId = await previous.createApprovalRequest(createMockToolCall());
+      const first = { requestId: firstId, decision: 'APPROVE' as const, approvedBy: 'user' };
+      const firstHeaders = security.generateHeaders(JSON.stringify(first), firstId);
+      await previous.handleApprovalResponse(first, firstHeaders);
+      const secondId = await previous.createApprovalRequest(createMockToolCall());
+      previous.destroy();
+
+      manager = new HITLManager(webhookConfig, logger, new FileApprovalStore(storePath));
+      const second = { requestId: secondId, decision: 'APPROVE' as const, approvedBy: 'user' };
+      const body = JSON.stringify(second);
+      const timestamp = firstHeaders['x-agentguard-timestamp']!;
+      const nonce = firstHeaders['x-agentguard-nonce']!;
+      const replayHeaders = {
+        'x-agentguard-signature': security.signPayload(
+          body,
+          secondId,
+          parseInt(timestamp, 10),
+          nonce,
+        ),
+        'x-agentguard-timestamp': timestamp,
+        'x-agentguard-nonce': nonce,
+        'x-agentguard-request-id': secondId,
+      };
+
+      await expect(manager.handleApprovalResponse(second, replayHeaders)).rejects.toThrow(
+        'Duplicate nonce detected',
+      );
+      manager.destroy();
+    });
   });
 
   describe('webhook retries', () => {
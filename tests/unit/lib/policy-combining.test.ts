@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { selectDecidingResult } from '../../../src/lib/policy-combining.js';
+import type { GuardResult, PolicyDecision } from '../../../src/types.js';
+
+describe('selectDecidingResult()', () => {
+  const matched = (policy: string, decision: PolicyDecision) => ({
+    policy,
+    result: {
+      decision,
+      rule: { name: `${policy}-rule`, action: decision, conditions: [] },
+      reason: `Matched rule: ${policy}-rule`,
+    } as GuardResult,
+  });
+  const defaulted = (policy: string, decision: PolicyDecision) => ({
+    policy,
+    result: { decision, reason: 'No matching rules found, using default action' } as GuardResult,
+  });
+
+  const results = [
+    defaulted('baseline', 'BLOCK'),
+    matched('reads', 'ALLOW'),
+    matched('payments', 'REQUIRE_HUMAN_APPROVAL'),
+    matched('secrets', 'BLOCK'),
+  ];
+
+  it('should let the strongest decision win under the overrides algorithms', () => {
+    expect(selectDecidingResult('deny-overrides', results).policy).toBe('secrets');
+    expect(selectDecidingResult('permit-overrides', results).policy).toBe('reads');
+    expect(selectDecidingResult('approval-overrides', results).policy).toBe('payments');
+  });
+
+  it('should let the first policy with a matching rule decide under first-applicable', () => {
+    expect(selectDecidingResult('first-applicable', results).policy).toBe('reads');
+  });
+
+  it('should give ties to the earlier policy', () => {
+    const tied = [matched('first', 'BLOCK'), matched('second', 'BLOCK')];
+
+    expect(selectDecidingResult('deny-overrides', tied).policy).toBe('first');
+  });
+
+  it('should fall back to default actions when no policy has a matching rule', () => {
+    const defaults = [defaulted('baseline', 'ALLOW'), defaulted('product', 'BLOCK')];
+
+    expect(selectDecidingResult('deny-overrides', defaults).policy).toBe('product');
+    expect(selectDecidingResult('permit-overrides', defaults).policy).toBe('baseline');
+    expect(selectDecidingResult('first-applicable', defaults).policy).toBe('baseline');
+  });
+});
@@ -4,6 +4,7 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import { PolicyLoader } from '../../../src/lib/policy-loader.js';
 import { PolicyLoadError } from '../../../src/lib/errors.js';
+import { generatePolicyKeys, signPolicy } from '../../../src/lib/policy-signing.js';
 import { Logger } from '../../../src/lib/logger.js';
 import { samplePolicies } from '../../fixtures/policies.js';
 
@@ -251,6 +252,1210 @@ rules:
     });
   });
 
+  describe('rule mode', () => {
+    it('should load shadow rules and reject unknown modes', async () => {
+      const shadowPath = join(testDir, 'shadow.yaml');
+      await writeFile(
+        shadowPath,
+        `
+version: "1.0"
+name: "Shadow"
+defaultAction: ALLOW
+rules:
+  - name: "Candidate"
+    action: BLOCK
+    mode: shadow
+    conditions: []
+`,
+      );
+      const invalidPath = join(testDir, 'invalid-mode.yaml');
+      await writeFile(
+        invalidPath,
+        `
+version: "1.0"
+name: "Invalid Mode"
+defaultAction: ALLOW
+rules:
+  - name: "Candidate"
+    action: BLOCK
+    mode: maybe
+    conditions: []
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(shadowPath);
+
+      expect(policy.rules[0]?.mode).toBe('shadow');
+      await expect(policyLoader.loadPolicy(invalidPath)).rejects.toThrow(
+        'Invalid "mode" field. Must be enforce or shadow',
+      );
+    });
+  });
+
+  describe('validity periods', () => {
+    it('should load validFrom and validUntil as ISO timestamps', async () => {
+      const policyPath = join(testDir, 'validity.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Validity"
+defaultAction: BLOCK
+rules:
+  - name: "Temporary exception"
+    action: ALLOW
+    validFrom: 2024-03-01T09:00:00Z
+    validUntil: "2024-03-02T09:00:00+01:00"
+    conditions: []
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]).toMatchObject({
+        validFrom: '2024-03-01T09:00:00.000Z',
+        validUntil: '2024-03-02T09:00:00+01:00',
+      });
+    });
+
+    it('should tell unquoted timestamps at midnight UTC from dates', async () => {
+      const policyPath = join(testDir, 'midnight.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Midnight"
+defaultAction: BLOCK
+windows:
+  holidays:
+    - dates: { from: 2026-12-24, to: 2027-01-01T00:00:00Z }
+rules:
+  - name: "New year"
+    action: ALLOW
+    validFrom: 2026-01-01T00:00:00Z
+    conditions: []
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]?.validFrom).toBe('2026-01-01T00:00:00.000Z');
+      expect(policy.windows?.holidays).toEqual([
+        { dates: { from: '2026-12-24', to: '2027-01-01T00:00:00.000Z' } },
+      ]);
+    });
+
+    it.each([
+      [
+        'validUntil: "2024-03-02"',
+        'Invalid "validUntil" field. Must be an ISO timestamp with an offset',
+      ],
+      [
+        'validUntil: 2024-03-02',
+        'Invalid "validUntil" field. Must be an ISO timestamp with an offset',
+      ],
+      ['validFrom: "soon"', 'Invalid "validFrom" field. Must be an ISO timestamp with an offset'],
+      [
+        'validFrom: "2024-03-02T00:00:00Z"\n    validUntil: "2024-03-01T00:00:00Z"',
+        '"validFrom" must be before "validUntil"',
+      ],
+    ])('should reject invalid validity periods (%#)', async (validity, message) => {
+      const policyPath = join(testDir, 'invalid-validity.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Validity"
+defaultAction: BLOCK
+rules:
+  - name: "Rule"
+    action: ALLOW
+    ${validity}
+    conditions: []
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(`Rule 0: ${message}`);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should load rate-limited rules', async () => {
+      const policyPath = join(testDir, 'rate-limit.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Rate Limit"
+defaultAction: ALLOW
+rules:
+  - name: "Email burst"
+    action: BLOCK
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "send_email"
+    rateLimit:
+      limit: 5
+      window: 60000
+      per: session
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]?.rateLimit).toEqual({ limit: 5, window: 60000, per: 'session' });
+    });
+
+    it.each([
+      ['rateLimit: 5', '"rateLimit" must be an object'],
+      [
+        'rateLimit:\n      limit: 1.5\n      window: 0\n      per: tenant',
+        'Invalid "rateLimit.limit". Must be a non-negative integer, ' +
+          'Invalid "rateLimit.window". Must be a positive number of milliseconds, ' +
+          'Invalid "rateLimit.per". Must be session, agent, or global',
+      ],
+    ])('should reject invalid rate limits (%#)', async (rateLimit, message) => {
+      const policyPath = join(testDir, 'invalid-rate-limit.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Rate Limit"
+defaultAction: ALLOW
+rules:
+  - name: "Rule"
+    action: BLOCK
+    conditions: []
+    ${rateLimit}
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(`Rule 0: ${message}`);
+    });
+  });
+
+  describe('budgets', () => {
+    it('should load budgeted rules', async () => {
+      const policyPath = join(testDir, 'budget.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Budget"
+defaultAction: ALLOW
+rules:
+  - name: "Daily spend"
+    action: REQUIRE_HUMAN_APPROVAL
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "send_payment"
+    budget:
+      field: "toolCall.parameters.amount"
+      limit: 5000
+      window: 86400000
+      per: agent
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]?.budget).toEqual({
+        field: 'toolCall.parameters.amount',
+        limit: 5000,
+        window: 86400000,
+        per: 'agent',
+      });
+    });
+
+    it.each([
+      ['budget: []', '"budget" must be an object'],
+      [
+        'budget:\n      limit: -1\n      window: 1000\n      per: session',
+        'Missing or invalid "budget.field", Invalid "budget.limit". Must be a non-negative number',
+      ],
+      [
+        'budget:\n      field: "toolCall.parameters.amount"\n      limit: 10\n      window: 1000\n      per: session\n    rateLimit:\n      limit: 1\n      window: 1000\n      per: session',
+        '"rateLimit" and "budget" cannot be combined on one rule',
+      ],
+    ])('should reject invalid budgets (%#)', async (budget, message) => {
+      const policyPath = join(testDir, 'invalid-budget.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Budget"
+defaultAction: ALLOW
+rules:
+  - name: "Rule"
+    action: BLOCK
+    conditions: []
+    ${budget}
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(`Rule 0: ${message}`);
+    });
+  });
+
+  describe('MODIFY transforms', () => {
+    it('should load MODIFY rules with their transforms', async () => {
+      const policyPath = join(testDir, 'modify.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Modify"
+defaultAction: ALLOW
+rules:
+  - name: "Sanitize email"
+    action: MODIFY
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "send_email"
+    transforms:
+      - op: remove
+        field: "toolCall.parameters.cc"
+      - op: clamp
+        field: "toolCall.parameters.limit"
+        max: 100
+      - op: set
+        field: "toolCall.parameters.options.dryRun"
+        value: true
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]?.transforms).toEqual([
+        { op: 'remove', field: 'toolCall.parameters.cc' },
+        { op: 'clamp', field: 'toolCall.parameters.limit', max: 100 },
+        { op: 'set', field: 'toolCall.parameters.options.dryRun', value: true },
+      ]);
+    });
+
+    it.each([
+      ['action: MODIFY', 'Action MODIFY requires a non-empty "transforms" array'],
+      [
+        'action: ALLOW\n    transforms:\n      - op: remove\n        field: "toolCall.parameters.cc"',
+        '"transforms" is only allowed on MODIFY rules',
+      ],
+      [
+        'action: MODIFY\n    transforms:\n      - op: remove\n        field: "toolCall.toolName"',
+        'Transform 0: Missing or invalid "field" property. Must be a path under toolCall.parameters.',
+      ],
+      [
+        'action: MODIFY\n    transforms:\n      - op: rename\n        field: "toolCall.parameters.cc"',
+        'Transform 0: Missing or invalid "op" property. Must be remove, set, clamp, truncate, or redact',
+      ],
+      [
+        'action: MODIFY\n    transforms:\n      - op: set\n        field: "toolCall.parameters.cc"',
+        'Transform 0: Transform "set" requires a "value" property',
+      ],
+      [
+        'action: MODIFY\n    transforms:\n      - op: clamp\n        field: "toolCall.parameters.limit"\n        min: 10\n        max: 1',
+        'Transform 0: Transform "clamp" has "min" greater than "max"',
+      ],
+      [
+        'action: MODIFY\n    transforms:\n      - op: clamp\n        field: "toolCall.parameters.limit"',
+        'Transform 0: Transform "clamp" requires a numeric "min" and/or "max"',
+      ],
+      [
+        'action: MODIFY\n    transforms:\n      - op: truncate\n        field: "toolCall.parameters.body"\n        max: -1',
+        'Transform 0: Transform "truncate" requires a non-negative integer "max"',
+      ],
+      [
+        'action: MODIFY\n    transforms:\n      - op: redact\n        field: "toolCall.parameters.body"\n        pattern: "[invalid"',
+        'Transform 0: Invalid regex pattern',
+      ],
+    ])('should reject invalid transforms (%#)', async (ruleBody, message) => {
+      const policyPath = join(testDir, 'invalid-modify.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Modify"
+defaultAction: ALLOW
+rules:
+  - name: "Rule"
+    conditions: []
+    ${ruleBody}
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(`Rule 0: ${message}`);
+    });
+
+    it('should reject MODIFY as the default action', async () => {
+      const policyPath = join(testDir, 'modify-default.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Modify Default"
+defaultAction: MODIFY
+rules: []
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        'Missing or invalid "defaultAction" field',
+      );
+    });
+  });
+
+  describe('result rules', () => {
+    it('should load result rules with result transforms', async () => {
+      const policyPath = join(testDir, 'result-rules.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Result Rules"
+defaultAction: ALLOW
+rules: []
+resultRules:
+  - name: "Block SSNs"
+    action: BLOCK
+    conditions:
+      - field: "resultText"
+        operator: "regex"
+        value: "\\\\d{3}-\\\\d{2}-\\\\d{4}"
+  - name: "Trim rows"
+    action: MODIFY
+    conditions:
+      - field: "result.rows.length"
+        operator: "gt"
+        value: 100
+    transforms:
+      - op: truncate
+        field: "result.rows"
+        max: 100
+      - op: redact
+        field: "result"
+        pattern: "sk-\\\\w+"
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.resultRules).toHaveLength(2);
+      expect(policy.resultRules?.[1]?.transforms).toEqual([
+        { op: 'truncate', field: 'result.rows', max: 100 },
+        { op: 'redact', field: 'result', pattern: 'sk-\\w+' },
+      ]);
+    });
+
+    it('should omit resultRules when none are configured', async () => {
+      const policyPath = join(testDir, 'no-result-rules.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "No Result Rules"
+defaultAction: ALLOW
+rules: []
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy).not.toHaveProperty('resultRules');
+    });
+
+    it.each([
+      [
+        'action: REQUIRE_HUMAN_APPROVAL',
+        'Missing or invalid "action" field. Must be ALLOW, BLOCK, or MODIFY',
+      ],
+      [
+        'action: BLOCK\n    rateLimit:\n      limit: 1\n      window: 1000\n      per: global',
+        '"rateLimit" is not allowed on result rules',
+      ],
+      [
+        'action: MODIFY\n    transforms:\n      - op: remove\n        field: "toolCall.parameters.cc"',
+        'Transform 0: Missing or invalid "field" property. Must be result or a path under result.',
+      ],
+    ])('should reject invalid result rules (%#)', async (ruleBody, message) => {
+      const policyPath = join(testDir, 'invalid-result-rules.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Result Rules"
+defaultAction: ALLOW
+rules: []
+resultRules:
+  - name: "Rule"
+    conditions: []
+    ${ruleBody}
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Result rule 0: ${message}`,
+      );
+    });
+
+    it('should require resultRules to be an array', async () => {
+      const policyPath = join(testDir, 'result-rules-object.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Result Rules Object"
+defaultAction: ALLOW
+rules: []
+resultRules: {}
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        '"resultRules" must be an array',
+      );
+    });
+  });
+
+  describe('regex validation', () => {
+    it('should reject invalid regex patterns', async () => {
+      const policyPath = join(testDir, 'bad-regex.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Bad Regex"
+defaultAction: ALLOW
+rules:
+  - name: "Bad"
+    action: BLOCK
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "regex"
+        value: "(unclosed"
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        /Condition 0: Invalid regex pattern/,
+      );
+    });
+  });
+
+  describe('previousCall conditions', () => {
+    it('should load previousCall conditions, including inside groups', async () => {
+      const policyPath = join(testDir, 'sequence.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Sequence"
+defaultAction: ALLOW
+rules:
+  - name: "Untested deploys"
+    action: BLOCK
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "deploy_production"
+      - not:
+          previousCall:
+            toolName: "run_tests"
+            status: succeeded
+            within: 3600000
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]?.conditions[1]).toEqual({
+        not: { previousCall: { toolName: 'run_tests', status: 'succeeded', within: 3600000 } },
+      });
+    });
+
+    it.each([
+      ['previousCall: "run_tests"', '"previousCall" must be an object'],
+      ['previousCall:\n          status: succeeded', 'Missing or invalid "previousCall.toolName"'],
+      [
+        'previousCall:\n          toolName: "run_tests"\n          status: passed',
+        'Invalid "previousCall.status". Must be succeeded or failed',
+      ],
+      [
+        'previousCall:\n          toolName: "run_tests"\n          within: -5',
+        'Invalid "previousCall.within". Must be a positive number of milliseconds',
+      ],
+      [
+        'previousCall:\n          toolName: "run_tests"\n        field: "toolCall.toolName"',
+        '"previousCall" cannot also define "field" or "operator"',
+      ],
+    ])('should reject invalid previousCall conditions (%#)', async (condition, message) => {
+      const policyPath = join(testDir, 'invalid-sequence.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Sequence"
+defaultAction: ALLOW
+rules:
+  - name: "Rule"
+    action: BLOCK
+    conditions:
+      - ${condition}
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Rule 0: Condition 0: ${message}`,
+      );
+    });
+  });
+
+  describe('taint conditions', () => {
+    it('should load taint conditions, with or without a field and label', async () => {
+      const policyPath = join(testDir, 'taint.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Taint"
+defaultAction: ALLOW
+rules:
+  - name: "Untrusted email body"
+    action: REQUIRE_HUMAN_APPROVAL
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "send_email"
+      - anyOf:
+          - taint:
+              field: "toolCall.parameters.body"
+              label: "web_fetch"
+          - taint: {}
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]?.conditions[1]).toEqual({
+        anyOf: [
+          { taint: { field: 'toolCall.parameters.body', label: 'web_fetch' } },
+          { taint: {} },
+        ],
+      });
+    });
+
+    it.each([
+      ['taint: true', '"taint" must be an object'],
+      [
+        'taint:\n          field: "toolCall.toolName"',
+        'Invalid "taint.field". Must be toolCall.parameters or a path under toolCall.parameters',
+      ],
+      ['taint:\n          label: 42', 'Invalid "taint.label". Must be a non-empty string'],
+      ['taint: {}\n        operator: "equals"', '"taint" cannot also define "field" or "operator"'],
+    ])('should reject invalid taint conditions (%#)', async (condition, message) => {
+      const policyPath = join(testDir, 'invalid-taint.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Taint"
+defaultAction: ALLOW
+rules:
+  - name: "Rule"
+    action: BLOCK
+    conditions:
+      - ${condition}
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Rule 0: Condition 0: ${message}`,
+      );
+    });
+  });
+
+  describe('schedules and windows', () => {
+    it('should load schedule conditions and named windows', async () => {
+      const policyPath = join(testDir, 'schedule.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Schedule"
+defaultAction: ALLOW
+windows:
+  maintenance:
+    days: [sat]
+    hours: { from: "02:00", to: "06:00" }
+  freeze:
+    - dates: { from: 2024-12-20, to: "2025-01-02T12:00:00+01:00" }
+rules:
+  - name: "Business hours deploys"
+    action: REQUIRE_HUMAN_APPROVAL
+    conditions:
+      - schedule:
+          timezone: "America/New_York"
+          days: [mon, tue, wed, thu, fri]
+          hours:
+            from: "09:00"
+            to: "17:00"
+      - not:
+          window: "maintenance"
+  - name: "Change freeze"
+    action: BLOCK
+    conditions:
+      - window: "freeze"
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.windows).toEqual({
+        maintenance: [{ days: ['sat'], hours: { from: '02:00', to: '06:00' } }],
+        freeze: [{ dates: { from: '2024-12-20', to: '2025-01-02T12:00:00+01:00' } }],
+      });
+      expect(policy.rules[0]?.conditions).toEqual([
+        {
+          schedule: {
+            timezone: 'America/New_York',
+            days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+            hours: { from: '09:00', to: '17:00' },
+          },
+        },
+        { not: { window: 'maintenance' } },
+      ]);
+    });
+
+    it.each([
+      ['schedule: "weekdays"', '"schedule" must be an object'],
+      [
+        'schedule:\n          timezone: "Mars/Olympus_Mons"',
+        'Invalid "schedule.timezone". Must be an IANA time zone such as Europe/Berlin',
+      ],
+      [
+        'schedule:\n          days: [monday]',
+        'Invalid "schedule.days". Must be a non-empty list of mon, tue, wed, thu, fri, sat, sun',
+      ],
+      [
+        'schedule:\n          hours: { from: "9am", to: "17:00" }',
+        'Invalid "schedule.hours". Must have different "from" and "to" times as HH:MM',
+      ],
+      [
+        'schedule:\n          dates: { from: "2024-12-20T00:00:00" }',
+        'Invalid "schedule.dates". Must have a "from" and/or "to" date as YYYY-MM-DD or an ISO timestamp with an offset',
+      ],
+      [
+        'schedule: {}\n        field: "toolCall.toolName"',
+        '"schedule" cannot also define "field" or "operator"',
+      ],
+      ['window: 42', 'Invalid "window". Must be the name of a window'],
+    ])('should reject invalid schedule conditions (%#)', async (condition, message) => {
+      const policyPath = join(testDir, 'invalid-schedule.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Schedule"
+defaultAction: ALLOW
+rules:
+  - name: "Rule"
+    action: BLOCK
+    conditions:
+      - ${condition}
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Rule 0: Condition 0: ${message}`,
+      );
+    });
+
+    it('should reject invalid windows and references to unknown windows', async () => {
+      const policyPath = join(testDir, 'invalid-windows.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Invalid Windows"
+defaultAction: ALLOW
+windows:
+  maintenance:
+    - days: [sat]
+    - days: []
+rules:
+  - name: "Rule"
+    action: BLOCK
+    conditions:
+      - anyOf:
+          - window: "maintenance"
+          - window: "holidays"
+`,
+      );
+
+      const error = await policyLoader.loadPolicy(policyPath).catch(e => e);
+
+      expect(error.message).toContain(
+        'Window "maintenance"[1]: Invalid "days". Must be a non-empty list',
+      );
+      expect(error.message).toContain('Rule 0: Unknown window "holidays"');
+    });
+  });
+
+  describe('condition groups', () => {
+    it('should load nested anyOf, allOf and not groups', async () => {
+      const policyPath = join(testDir, 'groups.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Groups"
+defaultAction: ALLOW
+rules:
+  - name: "Block deploys outside staging"
+    action: BLOCK
+    conditions:
+      - anyOf:
+          - field: "toolCall.toolName"
+            operator: "equals"
+            value: "deploy"
+          - allOf:
+              - field: "toolCall.toolName"
+                operator: "startsWith"
+                value: "release_"
+      - not:
+          field: "toolCall.parameters.environment"
+          operator: "equals"
+          value: "staging"
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]?.conditions).toEqual([
+        {
+          anyOf: [
+            { field: 'toolCall.toolName', operator: 'equals', value: 'deploy' },
+            {
+              allOf: [{ field: 'toolCall.toolName', operator: 'startsWith', value: 'release_' }],
+            },
+          ],
+        },
+        { not: { field: 'toolCall.parameters.environment', operator: 'equals', value: 'staging' } },
+      ]);
+    });
+
+    it('should report the nested path of an invalid condition', async () => {
+      const policyPath = join(testDir, 'bad-group.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Bad Group"
+defaultAction: ALLOW
+rules:
+  - name: "Bad"
+    action: BLOCK
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "deploy"
+      - anyOf:
+          - field: "toolCall.toolName"
+            operator: "equals"
+            value: "x"
+          - not:
+              field: "toolCall.parameters.count"
+              operator: "gt"
+              value: "lots"
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        'Rule 0: Condition 1.anyOf[1].not: Operator "gt" requires a numeric value',
+      );
+    });
+
+    it('should reject empty groups', async () => {
+      const policyPath = join(testDir, 'empty-group.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Empty Group"
+defaultAction: ALLOW
+rules:
+  - name: "Empty"
+    action: BLOCK
+    conditions:
+      - allOf: []
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        'Condition 0: "allOf" must be a non-empty array of conditions',
+      );
+    });
+
+    it('should reject conditions mixing group keys', async () => {
+      const policyPath = join(testDir, 'mixed-group.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Mixed Group"
+defaultAction: ALLOW
+rules:
+  - name: "Mixed"
+    action: BLOCK
+    conditions:
+      - anyOf:
+          - field: "toolCall.toolName"
+            operator: "equals"
+            value: "x"
+        not:
+          field: "toolCall.toolName"
+          operator: "equals"
+          value: "y"
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        'Condition group must have exactly one of anyOf, allOf or not',
+      );
+    });
+  });
+
+  describe('scopes', () => {
+    it('should load policy and rule scopes, accepting single values', async () => {
+      const policyPath = join(testDir, 'scoped.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Billing agents"
+defaultAction: BLOCK
+scope:
+  agents: "billing-*"
+rules:
+  - name: "Admins can refund"
+    action: ALLOW
+    scope:
+      roles: [admin, finance-lead]
+      tags: refunds
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "refund"
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.scope).toEqual({ agents: ['billing-*'] });
+      expect(policy.rules[0]?.scope).toEqual({
+        roles: ['admin', 'finance-lead'],
+        tags: ['refunds'],
+      });
+    });
+
+    it('should reject invalid scopes', async () => {
+      const policyPath = join(testDir, 'bad-scope.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Bad scopes"
+defaultAction: BLOCK
+scope:
+  teams: [payments]
+rules:
+  - name: "Empty agents"
+    action: ALLOW
+    scope:
+      agents: []
+    conditions: []
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        'Unknown "scope" field "teams". Must be one of: agents, sessions, roles, tags',
+      );
+
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Bad scopes"
+defaultAction: BLOCK
+rules:
+  - name: "Empty agents"
+    action: ALLOW
+    scope:
+      agents: []
+    conditions: []
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        'Rule 0: Invalid "scope.agents". Must be a non-empty string or list of strings',
+      );
+    });
+  });
+
+  describe('policy composition', () => {
+    const base = `
+version: "1.0"
+name: "Base"
+defaultAction: BLOCK
+lists:
+  readOnlyTools: ["read_file", "list_files"]
+rules:
+  - name: "Allow reads"
+    action: ALLOW
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "in"
+        list: readOnlyTools
+  - name: "Block deletes"
+    action: BLOCK
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "delete_file"
+`;
+
+    it('should extend a base policy, overriding rules by name', async () => {
+      await writeFile(join(testDir, 'base.yaml'), base);
+      const policyPath = join(testDir, 'team.yaml');
+      await writeFile(
+        policyPath,
+        `
+extends: ./base.yaml
+name: "Team"
+rules:
+  - name: "Block deletes"
+    action: REQUIRE_HUMAN_APPROVAL
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "delete_file"
+  - name: "Allow search"
+    action: ALLOW
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        value: "search"
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.name).toBe('Team');
+      expect(policy.version).toBe('1.0');
+      expect(policy.defaultAction).toBe('BLOCK');
+      expect(policy.rules.map(rule => [rule.name, rule.action])).toEqual([
+        ['Allow reads', 'ALLOW'],
+        ['Block deletes', 'REQUIRE_HUMAN_APPROVAL'],
+        ['Allow search', 'ALLOW'],
+      ]);
+    });
+
+    it('should include rule fragments and resolve named lists into "in" values', async () => {
+      await mkdir(join(testDir, 'shared'));
+      await writeFile(
+        join(testDir, 'shared', 'lists.yaml'),
+        `
+lists:
+  readOnlyTools: ["read_file", "list_files", "search"]
+`,
+      );
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Composed"
+defaultAction: BLOCK
+include:
+  - ./shared/lists.yaml
+rules:
+  - name: "Allow reads"
+    action: ALLOW
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "in"
+        list: readOnlyTools
+`,
+      );
+
+      const policy = await policyLoader.loadPolicy(policyPath);
+
+      expect(policy.rules[0]?.conditions).toEqual([
+        {
+          field: 'toolCall.toolName',
+          operator: 'in',
+          value: ['read_file', 'list_files', 'search'],
+        },
+      ]);
+    });
+
+    it('should record the files a policy was loaded from', async () => {
+      await writeFile(join(testDir, 'base.yaml'), base);
+      await writeFile(join(testDir, 'lists.yaml'), 'lists: {}\n');
+      const policyPath = join(testDir, 'team.yaml');
+      await writeFile(policyPath, 'extends: ./base.yaml\ninclude: ./lists.yaml\nname: "Team"\n');
+
+      expect(policyLoader.getSourceFiles(policyPath)).toEqual([policyPath]);
+      await policyLoader.loadPolicy(policyPath);
+
+      expect(policyLoader.getSourceFiles(policyPath)).toEqual([
+        policyPath,
+        join(testDir, 'base.yaml'),
+        join(testDir, 'lists.yaml'),
+      ]);
+    });
+
+    it('should reject circular references', async () => {
+      await writeFile(join(testDir, 'a.yaml'), base + 'extends: ./b.yaml\n');
+      await writeFile(join(testDir, 'b.yaml'), 'include: ./a.yaml\n');
+
+      await expect(policyLoader.loadPolicy(join(testDir, 'a.yaml'))).rejects.toThrow(
+        `Circular policy reference: ${join(testDir, 'a.yaml')} -> ${join(testDir, 'b.yaml')} -> ${join(testDir, 'a.yaml')}`,
+      );
+    });
+
+    it('should only allow rules, lists and windows in included files', async () => {
+      await writeFile(join(testDir, 'fragment.yaml'), 'defaultAction: ALLOW\n');
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeFile(policyPath, base + 'include: ./fragment.yaml\n');
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        /Included policy file .*fragment\.yaml can only define .*; found defaultAction/,
+      );
+    });
+
+    it('should report the file and index of an invalid inherited rule', async () => {
+      await writeFile(
+        join(testDir, 'fragment.yaml'),
+        `
+rules:
+  - name: "Broken"
+    action: EXPLODE
+`,
+      );
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeFile(policyPath, base + 'include: ./fragment.yaml\n');
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Rule 0 in ${join(testDir, 'fragment.yaml')}: Missing or invalid "action" field`,
+      );
+    });
+
+    it('should reject unknown lists and lists outside "in" conditions', async () => {
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeFile(
+        policyPath,
+        `
+version: "1.0"
+name: "Lists"
+defaultAction: ALLOW
+lists:
+  dangerous: ["rm"]
+rules:
+  - name: "Unknown"
+    action: BLOCK
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "in"
+        list: missing
+  - name: "Wrong operator"
+    action: BLOCK
+    conditions:
+      - field: "toolCall.toolName"
+        operator: "equals"
+        list: dangerous
+`,
+      );
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        /Rule 0: Condition 0: Unknown list "missing".*Rule 1: Condition 0: "list" requires operator "in"/s,
+      );
+    });
+  });
+
+  describe('signature verification', () => {
+    const { signingKey, verificationKey } = generatePolicyKeys('ed25519');
+    const policy = samplePolicies.blockAll;
+
+    const writeSigned = async (path: string, content: string) => {
+      await writeFile(path, content);
+      await writeFile(`${path}.sig`, JSON.stringify(signPolicy(content, signingKey)));
+    };
+
+    beforeEach(() => {
+      policyLoader = new PolicyLoader(new Logger({ enabled: false }), { verificationKey });
+    });
+
+    it('should load policies whose signature verifies', async () => {
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeSigned(policyPath, policy);
+
+      await expect(policyLoader.loadPolicy(policyPath)).resolves.toMatchObject({
+        defaultAction: 'BLOCK',
+      });
+    });
+
+    it('should refuse unsigned policies', async () => {
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeFile(policyPath, policy);
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Policy file ${policyPath} is not signed (no ${policyPath}.sig)`,
+      );
+    });
+
+    it('should refuse policies modified after signing', async () => {
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeSigned(policyPath, policy);
+      await writeFile(policyPath, policy.replace('defaultAction: BLOCK', 'defaultAction: ALLOW'));
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Policy file ${policyPath} does not match its signature`,
+      );
+    });
+
+    it('should refuse malformed signatures and signatures from another algorithm', async () => {
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeFile(policyPath, policy);
+      await writeFile(`${policyPath}.sig`, 'not json');
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Malformed policy signature file: ${policyPath}.sig`,
+      );
+
+      const hmac = generatePolicyKeys('hmac-sha256').signingKey;
+      await writeFile(`${policyPath}.sig`, JSON.stringify(signPolicy(policy, hmac)));
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Policy file ${policyPath} is signed with hmac-sha256, expected ed25519`,
+      );
+    });
+
+    it('should require every extended and included file to be signed', async () => {
+      const policyPath = join(testDir, 'policy.yaml');
+      await writeSigned(policyPath, policy + 'include: ./extra.yaml\n');
+      await writeFile(join(testDir, 'extra.yaml'), 'rules: []\n');
+
+      await expect(policyLoader.loadPolicy(policyPath)).rejects.toThrow(
+        `Policy file ${join(testDir, 'extra.yaml')} is not signed`,
+      );
+
+      await writeSigned(join(testDir, 'extra.yaml'), 'rules: []\n');
+      await expect(policyLoader.loadPolicy(policyPath)).resolves.toBeDefined();
+    });
+  });
+
   describe('generateSamplePolicy()', () => {
     it('should generate a valid sample policy', () => {
       const samplePolicy = PolicyLoader.generateSamplePolicy();
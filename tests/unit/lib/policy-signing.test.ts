@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generatePolicyKeys,
+  parseSigningKey,
+  parseVerificationKey,
+  signPolicy,
+  verifyPolicySignature,
+} from '../../../src/lib/policy-signing.js';
+
+describe('policy signing', () => {
+  const content = 'version: "1.0"\nname: "Signed"\ndefaultAction: BLOCK\nrules: []\n';
+
+  it.each(['ed25519', 'hmac-sha256'] as const)(
+    'should verify %s signatures over the exact policy bytes',
+    algorithm => {
+      const { signingKey, verificationKey } = generatePolicyKeys(algorithm);
+      const signature = signPolicy(content, signingKey);
+
+      expect(signature.algorithm).toBe(algorithm);
+      expect(verifyPolicySignature(content, signature, verificationKey)).toBe(true);
+      expect(
+        verifyPolicySignature(content.replace('BLOCK', 'ALLOW'), signature, verificationKey),
+      ).toBe(false);
+    },
+  );
+
+  it('should reject signatures from another key or algorithm', () => {
+    const ed25519 = generatePolicyKeys('ed25519');
+    const hmac = generatePolicyKeys('hmac-sha256');
+    const signature = signPolicy(content, ed25519.signingKey);
+
+    expect(
+      verifyPolicySignature(content, signature, generatePolicyKeys('ed25519').verificationKey),
+    ).toBe(false);
+    expect(verifyPolicySignature(content, signature, hmac.verificationKey)).toBe(false);
+    expect(
+      verifyPolicySignature(
+        content,
+        { algorithm: 'ed25519', signature: 'c2hvcnQ=' },
+        ed25519.verificationKey,
+      ),
+    ).toBe(false);
+  });
+
+  it('should read PEM keys as Ed25519 and anything else as an HMAC secret', () => {
+    const { signingKey, verificationKey } = generatePolicyKeys('ed25519');
+    if (signingKey.algorithm !== 'ed25519' || verificationKey.algorithm !== 'ed25519') {
+      throw new Error('Expected Ed25519 keys');
+    }
+    const secret = 'a-policy-signing-secret-that-is-long-enough';
+
+    expect(parseSigningKey(`${signingKey.privateKey}\n`).algorithm).toBe('ed25519');
+    expect(parseVerificationKey(verificationKey.publicKey).algorithm).toBe('ed25519');
+    expect(parseSigningKey(`${secret}\n`)).toEqual({ algorithm: 'hmac-sha256', secret });
+    expect(() => parseSigningKey(verificationKey.publicKey)).toThrow(
+      'Policies are signed with a private key, not a public key',
+    );
+    expect(() => parseVerificationKey(signingKey.privateKey)).toThrow(
+      expect.objectContaining({ code: 'INVALID_SIGNING_KEY' }),
+    );
+    expect(() => parseVerificationKey('short')).toThrow(
+      'Policy signing secret must be at least 32 characters',
+    );
+  });
+});
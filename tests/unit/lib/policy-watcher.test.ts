@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { once } from 'events';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PolicyWatcher } from '../../../src/lib/policy-watcher.js';
+import { Logger } from '../../../src/lib/logger.js';
+import { createMockPolicy } from '../../helpers/index.js';
+
+describe('PolicyWatcher', () => {
+  const logger = new Logger({ enabled: false });
+  let testDir: string;
+  let policyFile: string;
+  let watcher: PolicyWatcher | undefined;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'agentguard-watch-'));
+    policyFile = join(testDir, 'policy.yaml');
+    await writeFile(policyFile, 'version: "1.0"\n');
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should reload once after a burst of changes settles', async () => {
+    const policy = createMockPolicy();
+    const reload = vi.fn().mockResolvedValue({ policies: [policy], files: [policyFile] });
+    watcher = new PolicyWatcher(reload, [policyFile], 50, logger);
+    const reloaded = once(watcher, 'reload');
+
+    await writeFile(policyFile, 'version: "1.1"\n');
+    await writeFile(policyFile, 'version: "1.2"\n');
+    await writeFile(policyFile, 'version: "1.3"\n');
+
+    const [event] = await reloaded;
+    expect(event).toMatchObject({ policies: [policy], files: [policyFile] });
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore changes to other files in the same directory', async () => {
+    const reload = vi.fn().mockResolvedValue({ policies: [], files: [policyFile] });
+    watcher = new PolicyWatcher(reload, [policyFile], 20, logger);
+
+    await writeFile(join(testDir, 'notes.txt'), 'unrelated');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(reload).not.toHaveBeenCalled();
+  });
+
+  it('should report failed reloads and keep watching', async () => {
+    const reload = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Policy validation failed'))
+      .mockResolvedValueOnce({ policies: [], files: [policyFile] });
+    watcher = new PolicyWatcher(reload, [policyFile], 20, logger);
+
+    const failed = once(watcher, 'reloadFailed');
+    await writeFile(policyFile, 'broken');
+    const [failure] = await failed;
+    expect(failure.error.message).toBe('Policy validation failed');
+    expect(failure.files).toEqual([policyFile]);
+
+    const reloaded = once(watcher, 'reload');
+    await writeFile(policyFile, 'fixed');
+    await reloaded;
+    expect(reload).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start watching files that a reload adds', async () => {
+    const included = join(testDir, 'shared', 'lists.yaml');
+    await mkdir(join(testDir, 'shared'));
+    await writeFile(included, 'lists: {}\n');
+    const reload = vi.fn().mockResolvedValue({ policies: [], files: [policyFile, included] });
+    watcher = new PolicyWatcher(reload, [policyFile], 20, logger);
+
+    const first = once(watcher, 'reload');
+    await writeFile(policyFile, 'include: ./shared/lists.yaml\n');
+    await first;
+    expect(watcher.getFiles()).toEqual([policyFile, included]);
+
+    const second = once(watcher, 'reload');
+    await writeFile(included, 'lists: { tools: [a] }\n');
+    await second;
+    expect(reload).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop reloading once closed', async () => {
+    const reload = vi.fn().mockResolvedValue({ policies: [], files: [policyFile] });
+    watcher = new PolicyWatcher(reload, [policyFile], 20, logger);
+
+    watcher.close();
+    await writeFile(policyFile, 'version: "2.0"\n');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(reload).not.toHaveBeenCalled();
+    expect(watcher.isClosed()).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getLocalTime, isValidTimezone, matchesSchedule } from '../../../src/lib/schedule.js';
+import type { Schedule } from '../../../src/types.js';
+
+describe('Schedules', () => {
+  // A Friday evening in UTC, already Saturday morning in Tokyo
+  const friday = '2024-03-08T22:30:00.000Z';
+
+  describe('getLocalTime()', () => {
+    it('should read an instant in a time zone', () => {
+      expect(getLocalTime(friday)).toEqual({
+        date: '2024-03-08',
+        time: '22:30',
+        day: 'fri',
+        timezone: 'UTC',
+      });
+      expect(getLocalTime(friday, 'Asia/Tokyo')).toEqual({
+        date: '2024-03-09',
+        time: '07:30',
+        day: 'sat',
+        timezone: 'Asia/Tokyo',
+      });
+    });
+
+    it('should follow daylight saving time', () => {
+      expect(getLocalTime('2024-01-15T14:00:00.000Z', 'America/New_York').time).toBe('09:00');
+      expect(getLocalTime('2024-07-15T13:00:00.000Z', 'America/New_York').time).toBe('09:00');
+    });
+  });
+
+  describe('isValidTimezone()', () => {
+    it('should accept IANA time zones only', () => {
+      expect(isValidTimezone('Europe/Berlin')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('matchesSchedule()', () => {
+    it('should match days of the week in the schedule time zone', () => {
+      const weekdays: Schedule = { days: ['mon', 'tue', 'wed', 'thu', 'fri'] };
+
+      expect(matchesSchedule(weekdays, friday)).toBe(true);
+      expect(matchesSchedule({ ...weekdays, timezone: 'Asia/Tokyo' }, friday)).toBe(false);
+    });
+
+    it('should match hour ranges, including ranges past midnight', () => {
+      const businessHours = { hours: { from: '09:00', to: '17:00' } };
+      const overnight = { hours: { from: '22:00', to: '06:00' } };
+
+      expect(matchesSchedule(businessHours, '2024-03-08T09:00:00.000Z')).toBe(true);
+      expect(matchesSchedule(businessHours, '2024-03-08T16:59:00.000Z')).toBe(true);
+      expect(matchesSchedule(businessHours, '2024-03-08T17:00:00.000Z')).toBe(false);
+      expect(matchesSchedule(overnight, friday)).toBe(true);
+      expect(matchesSchedule(overnight, '2024-03-09T05:59:00.000Z')).toBe(true);
+      expect(matchesSchedule(overnight, '2024-03-09T12:00:00.000Z')).toBe(false);
+    });
+
+    it('should match inclusive date ranges', () => {
+      const freeze = { dates: { from: '2024-03-01', to: '2024-03-08' } };
+
+      expect(matchesSchedule(freeze, friday)).toBe(true);
+      expect(matchesSchedule({ ...freeze, timezone: 'Asia/Tokyo' }, friday)).toBe(false);
+      expect(matchesSchedule(freeze, '2024-02-29T23:59:00.000Z')).toBe(false);
+      expect(matchesSchedule({ dates: { from: '2024-03-08T22:00:00-02:00' } }, friday)).toBe(false);
+      expect(matchesSchedule({ dates: { to: '2024-03-08T22:30:00Z' } }, friday)).toBe(true);
+    });
+
+    it('should require every part of the schedule to match', () => {
+      const schedule: Schedule = {
+        timezone: 'Europe/Berlin',
+        days: ['sat', 'sun'],
+        hours: { from: '00:00', to: '08:00' },
+      };
+
+      expect(matchesSchedule(schedule, friday)).toBe(false);
+      expect(matchesSchedule(schedule, '2024-03-09T05:00:00.000Z')).toBe(true);
+      expect(matchesSchedule({}, friday)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { getScopeFields, matchesScope } from '../../../src/lib/scope.js';
+import { createMockToolCall } from '../../helpers/index.js';
+
+describe('Scopes', () => {
+  describe('matchesScope()', () => {
+    it('should match agent and session id patterns', () => {
+      const billing = createMockToolCall({ agentId: 'billing-eu-1', sessionId: 'run-42' });
+
+      expect(matchesScope({ agents: ['billing-*'] }, billing)).toBe(true);
+      expect(matchesScope({ agents: ['billing-*-2', 'support'] }, billing)).toBe(false);
+      expect(matchesScope({ sessions: ['run-*'] }, billing)).toBe(true);
+      expect(matchesScope({ agents: ['*'] }, { toolName: 'anonymous', parameters: {} })).toBe(
+        false,
+      );
+    });
+
+    it('should treat pattern characters other than * literally', () => {
+      const call = createMockToolCall({ agentId: 'agent.v2' });
+
+      expect(matchesScope({ agents: ['agent.v2'] }, call)).toBe(true);
+      expect(
+        matchesScope({ agents: ['agent.v2'] }, createMockToolCall({ agentId: 'agentXv2' })),
+      ).toBe(false);
+    });
+
+    it('should match roles and tags from the call metadata', () => {
+      const call = createMockToolCall({
+        metadata: { role: 'analyst', roles: ['reader'], tags: ['pii', 'eu'] },
+      });
+
+      expect(matchesScope({ roles: ['admin', 'analyst'] }, call)).toBe(true);
+      expect(matchesScope({ roles: ['reader'] }, call)).toBe(true);
+      expect(matchesScope({ roles: ['admin'] }, call)).toBe(false);
+      expect(matchesScope({ tags: ['eu'] }, call)).toBe(true);
+      expect(matchesScope({ tags: ['us'] }, createMockToolCall())).toBe(false);
+    });
+
+    it('should require every part of the scope to match', () => {
+      const call = createMockToolCall({ agentId: 'billing-1', metadata: { role: 'reader' } });
+
+      expect(matchesScope({ agents: ['billing-*'], roles: ['reader'] }, call)).toBe(true);
+      expect(matchesScope({ agents: ['billing-*'], roles: ['admin'] }, call)).toBe(false);
+    });
+  });
+
+  describe('getScopeFields()', () => {
+    it('should list the tool call fields a scope reads', () => {
+      expect(getScopeFields({ agents: ['a'], tags: ['t'] })).toEqual([
+        'toolCall.agentId',
+        'toolCall.metadata.tags',
+      ]);
+    });
+  });
+});
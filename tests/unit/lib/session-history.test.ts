@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionHistory } from '../../../src/lib/session-history.js';
+
+describe('SessionHistory', () => {
+  let history: SessionHistory;
+
+  const call = (toolName: string) => ({
+    toolName,
+    status: 'succeeded' as const,
+    timestamp: new Date().toISOString(),
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+    history = new SessionHistory({ maxCallsPerSession: 3, ttl: 60000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep calls per session in order', () => {
+    history.record('session-1', call('a'));
+    history.record('session-2', call('b'));
+    history.record('session-1', call('c'));
+
+    expect(history.get('session-1').map(c => c.toolName)).toEqual(['a', 'c']);
+    expect(history.get('session-2').map(c => c.toolName)).toEqual(['b']);
+    expect(history.get('unknown')).toEqual([]);
+  });
+
+  it('should keep only the most recent calls of a session', () => {
+    ['a', 'b', 'c', 'd'].forEach(toolName => history.record('session-1', call(toolName)));
+
+    expect(history.get('session-1').map(c => c.toolName)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should drop calls older than the ttl', () => {
+    history.record('session-1', call('old'));
+    vi.advanceTimersByTime(40000);
+    history.record('session-1', call('new'));
+    vi.advanceTimersByTime(30000);
+
+    expect(history.get('session-1').map(c => c.toolName)).toEqual(['new']);
+  });
+
+  it('should forget idle sessions', () => {
+    history.record('idle', call('a'));
+    vi.advanceTimersByTime(61000);
+    history.record('active', call('b'));
+
+    expect((history as any).sessions.has('idle')).toBe(false);
+    expect(history.get('active')).toHaveLength(1);
+  });
+
+  it('should clear one or all sessions', () => {
+    history.record('session-1', call('a'));
+    history.record('session-2', call('b'));
+
+    history.clear('session-1');
+    expect(history.get('session-1')).toEqual([]);
+    expect(history.get('session-2')).toHaveLength(1);
+
+    history.clear();
+    expect(history.get('session-2')).toEqual([]);
+  });
+});
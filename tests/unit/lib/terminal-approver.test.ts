@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PassThrough } from 'stream';
+import { TerminalApprover } from '../../../src/lib/terminal-approver.js';
+import { AgentGuard } from '../../../src/lib/agentguard.js';
+import { HITLManager } from '../../../src/lib/hitl-manager.js';
+import { Logger } from '../../../src/lib/logger.js';
+import { PolicyViolationError } from '../../../src/lib/errors.js';
+import { createMockPolicy, createMockToolCall } from '../../helpers/index.js';
+
+describe('TerminalApprover', () => {
+  let input: PassThrough;
+  let output: PassThrough;
+  let printed: string;
+  let approver: TerminalApprover;
+
+  const waitForOutput = async (text: string) => {
+    while (!printed.includes(text)) {
+      await new Promise(resolve => output.once('data', resolve));
+    }
+  };
+
+  const answerWhenShown = async (text: string, answer: string) => {
+    await waitForOutput(text);
+    input.write(`${answer}\n`);
+  };
+
+  beforeEach(() => {
+    input = new PassThrough();
+    output = new PassThrough();
+    printed = '';
+    output.on('data', chunk => (printed += chunk.toString()));
+    approver = new TerminalApprover({ input, output, approvedBy: 'dev' });
+  });
+
+  it('should approve protected calls answered with y', async () => {
+    const guard = new AgentGuard({
+      policy: createMockPolicy({
+        defaultAction: 'ALLOW',
+        rules: [
+          {
+            name: 'confirm-transfers',
+            action: 'REQUIRE_HUMAN_APPROVAL',
+            conditions: [{ field: 'toolCall.toolName', operator: 'equals', value: 'transfer' }],
+          },
+        ],
+      }),
+      approver,
+      enableLogging: false,
+      timeout: 5000,
+    });
+    await guard.initialize();
+    const transfer = guard.protect('transfer', async (params: { amount: number }) => params.amount);
+
+    const result = transfer({ amount: 500 });
+    await answerWhenShown('Approve?', 'y');
+
+    await expect(result).resolves.toBe(500);
+    expect(printed).toContain('Tool:       transfer');
+    expect(printed).toContain('Rule:       confirm-transfers');
+    expect(printed).toContain('"amount": 500');
+    expect(printed).toContain('✅ Approved');
+  });
+
+  it('should deny other answers, with the text after the answer as the reason', async () => {
+    const guard = new AgentGuard({
+      policy: createMockPolicy({ defaultAction: 'REQUIRE_HUMAN_APPROVAL' }),
+      approver,
+      enableLogging: false,
+      timeout: 5000,
+    });
+    await guard.initialize();
+    const tool = guard.protect('deploy', async () => 'deployed');
+
+    const result = tool();
+    await answerWhenShown('Approve?', 'n not during the freeze');
+
+    await expect(result).rejects.toThrow(PolicyViolationError);
+    await expect(result).rejects.toThrow(
+      'Tool call denied by human reviewer: not during the freeze',
+    );
+  });
+
+  it('should ask about concurrent requests one at a time', async () => {
+    const manager = new HITLManager(null, new Logger({ enabled: false }), undefined, approver);
+    const first = await manager.createApprovalRequest(createMockToolCall({ toolName: 'first' }));
+    const second = await manager.createApprovalRequest(createMockToolCall({ toolName: 'second' }));
+
+    await waitForOutput('Approve?');
+    expect(printed).not.toContain('Tool:       second');
+    input.write('y\n');
+    await answerWhenShown('Tool:       second', 'n');
+
+    await expect(manager.waitForApproval(first, 1000)).resolves.toMatchObject({
+      approved: true,
+      approvedBy: 'dev',
+    });
+    await expect(manager.waitForApproval(second, 1000)).resolves.toMatchObject({
+      approved: false,
+    });
+  });
+
+  it('should show parameters that JSON cannot represent', async () => {
+    const manager = new HITLManager(null, new Logger({ enabled: false }), undefined, approver);
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+    const first = await manager.createApprovalRequest(
+      createMockToolCall({ parameters: { n: 1n } }),
+    );
+    const second = await manager.createApprovalRequest(
+      createMockToolCall({ toolName: 'second', parameters: { circular } }),
+    );
+
+    await answerWhenShown('"n": "1n"', 'y');
+    await answerWhenShown('Tool:       second', 'y');
+
+    await expect(manager.waitForApproval(first, 1000)).resolves.toMatchObject({ approved: true });
+    await expect(manager.waitForApproval(second, 1000)).resolves.toMatchObject({ approved: true });
+    expect(printed).toContain('[Circular *1]');
+  });
+
+  it('should deny a request it fails to show and keep asking about later ones', async () => {
+    const write = output.write.bind(output);
+    output.write = ((chunk: string) => {
+      if (chunk.includes('Tool:       first')) {
+        throw new Error('output is broken');
+      }
+      return write(chunk);
+    }) as typeof output.write;
+    const manager = new HITLManager(null, new Logger({ enabled: false }), undefined, approver);
+    const first = await manager.createApprovalRequest(createMockToolCall({ toolName: 'first' }));
+    const second = await manager.createApprovalRequest(createMockToolCall({ toolName: 'second' }));
+
+    await answerWhenShown('Tool:       second', 'y');
+
+    await expect(manager.waitForApproval(first, 1000)).resolves.toMatchObject({
+      approved: false,
+      reason: 'Terminal approver failed: output is broken',
+    });
+    await expect(manager.waitForApproval(second, 1000)).resolves.toMatchObject({ approved: true });
+    expect(printed).toContain(`Could not ask about request ${first}, denying it`);
+  });
+
+  it('should report answers that come after the request timed out', async () => {
+    const manager = new HITLManager(null, new Logger({ enabled: false }), undefined, approver);
+    const requestId = await manager.createApprovalRequest(createMockToolCall());
+
+    await expect(manager.waitForApproval(requestId, 10)).rejects.toThrow('timed out');
+    await answerWhenShown('Approve?', 'y');
+    await waitForOutput('Could not settle');
+
+    expect(printed).toContain(`Unknown approval request ID: ${requestId}`);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransforms, PARAMETERS_FIELD, RESULT_FIELD } from '../../../src/lib/transforms.js';
+
+describe('applyTransforms()', () => {
+  it('should remove, set and clamp parameters in order', () => {
+    const parameters = { to: 'a@example.com', cc: 'b@example.com', limit: 500 };
+
+    const modified = applyTransforms(parameters, PARAMETERS_FIELD, [
+      { op: 'remove', field: 'toolCall.parameters.cc' },
+      { op: 'clamp', field: 'toolCall.parameters.limit', min: 1, max: 100 },
+      { op: 'set', field: 'toolCall.parameters.dryRun', value: true },
+    ]);
+
+    expect(modified).toEqual({ to: 'a@example.com', limit: 100, dryRun: true });
+  });
+
+  it('should not mutate the original parameters', () => {
+    const parameters = { options: { limit: 500, verbose: true }, cc: 'x' };
+
+    const modified = applyTransforms(parameters, PARAMETERS_FIELD, [
+      { op: 'clamp', field: 'toolCall.parameters.options.limit', max: 100 },
+      { op: 'remove', field: 'toolCall.parameters.cc' },
+    ]);
+
+    expect(parameters).toEqual({ options: { limit: 500, verbose: true }, cc: 'x' });
+    expect(modified).toEqual({ options: { limit: 100, verbose: true } });
+  });
+
+  it('should create missing objects only when setting values', () => {
+    expect(
+      applyTransforms({}, PARAMETERS_FIELD, [
+        { op: 'set', field: 'toolCall.parameters.options.dryRun', value: true },
+      ]),
+    ).toEqual({ options: { dryRun: true } });
+
+    const parameters = { limit: 'many' };
+    expect(
+      applyTransforms(parameters, PARAMETERS_FIELD, [
+        { op: 'remove', field: 'toolCall.parameters.options.cc' },
+        { op: 'clamp', field: 'toolCall.parameters.options.limit', max: 10 },
+        { op: 'clamp', field: 'toolCall.parameters.limit', max: 10 },
+      ]),
+    ).toBe(parameters);
+  });
+
+  it('should raise values below the minimum', () => {
+    expect(
+      applyTransforms({ limit: -5 }, PARAMETERS_FIELD, [
+        { op: 'clamp', field: 'toolCall.parameters.limit', min: 0 },
+      ]),
+    ).toEqual({ limit: 0 });
+  });
+
+  it('should truncate strings and arrays longer than the maximum', () => {
+    const result = { rows: [1, 2, 3, 4], summary: 'abcdef', note: 'ok' };
+
+    expect(
+      applyTransforms(result, RESULT_FIELD, [
+        { op: 'truncate', field: 'result.rows', max: 2 },
+        { op: 'truncate', field: 'result.summary', max: 3 },
+        { op: 'truncate', field: 'result.note', max: 3 },
+      ]),
+    ).toEqual({ rows: [1, 2], summary: 'abc', note: 'ok' });
+  });
+
+  it('should redact pattern matches in every nested string', () => {
+    const result = {
+      body: 'key=sk-abc123 and sk-def456',
+      items: [{ token: 'sk-xyz789' }, 42],
+    };
+
+    expect(
+      applyTransforms(result, RESULT_FIELD, [
+        { op: 'redact', field: 'result', pattern: 'sk-\\w+' },
+      ]),
+    ).toEqual({
+      body: 'key=[REDACTED] and [REDACTED]',
+      items: [{ token: '[REDACTED]' }, 42],
+    });
+  });
+
+  it('should replace a whole field when redacting without a pattern', () => {
+    expect(
+      applyTransforms({ user: 'alice', password: 'hunter2' }, RESULT_FIELD, [
+        { op: 'redact', field: 'result.password', replacement: '***' },
+        { op: 'redact', field: 'result.apiKey' },
+      ]),
+    ).toEqual({ user: 'alice', password: '***' });
+  });
+
+  it('should transform a result that is not an object', () => {
+    expect(
+      applyTransforms('a very long output', RESULT_FIELD, [
+        { op: 'truncate', field: 'result', max: 6 },
+      ]),
+    ).toBe('a very');
+  });
+});
@@ -147,6 +147,22 @@ describe('WebhookSecurity', () => {
       expect(encrypted1.encrypted).not.toBe(encrypted2.encrypted);
     });
 
+    it('should encrypt and decrypt fields at dot paths', () => {
+      const payload = { request: { toolCall: { parameters: { secret: 's3cret', other: 1 } } } };
+      const fields = ['request.toolCall.parameters.secret', 'request.missing.field'];
+
+      const encrypted = security.encryptFields(payload, fields);
+
+      expect(encrypted.request.toolCall.parameters.secret).toEqual({
+        encrypted: expect.any(String),
+        iv: expect.any(String),
+        tag: expect.any(String),
+      });
+      expect(encrypted.request.toolCall.parameters.other).toBe(1);
+      expect(security.decryptFields(encrypted, fields)).toEqual(payload);
+      expect(payload.request.toolCall.parameters.secret).toBe('s3cret');
+    });
+
     it('should throw when encryption key not configured', () => {
       const noEncryptionSecurity = new WebhookSecurity({
         signingSecret: 'test-secret-key-that-is-at-least-32-characters-long',
@@ -266,6 +282,122 @@ describe('WebhookSecurity', () => {
     });
   });
 
+  describe('signing keys and rotation', () => {
+    const body = JSON.stringify({ status: 'ok' });
+    const requestId = 'req-123';
+
+    it.each(['ed25519', 'hmac-sha256'] as const)(
+      'should sign with a %s key and verify with the matching keyring entry',
+      algorithm => {
+        const { signingKey, verificationKey } = WebhookSecurity.generateKeys('2024-01', algorithm);
+        const sender = new WebhookSecurity({ signingKey });
+        const receiver = new WebhookSecurity({ signingKey, verificationKeys: [verificationKey] });
+
+        const headers = sender.generateHeaders(body, requestId);
+
+        expect(headers['x-agentguard-key-id']).toBe('2024-01');
+        expect(receiver.validateResponse(body, headers, requestId)).toEqual({ valid: true });
+        expect(receiver.validateResponse('{"status":"tampered"}', headers, requestId)).toEqual({
+          valid: false,
+          reason: 'Invalid signature',
+        });
+      },
+    );
+
+    it('should accept every active key during a rotation', () => {
+      const previous = WebhookSecurity.generateKeys('2024-01');
+      const next = WebhookSecurity.generateKeys('2024-02');
+      const receiver = new WebhookSecurity({
+        signingKey: next.signingKey,
+        verificationKeys: [previous.verificationKey, next.verificationKey],
+      });
+
+      for (const { signingKey } of [previous, next]) {
+        const headers = new WebhookSecurity({ signingKey }).generateHeaders(body, requestId);
+        expect(receiver.validateResponse(body, headers, requestId).valid).toBe(true);
+      }
+      expect(receiver.getActiveKeyIds()).toEqual(['2024-01', '2024-02']);
+    });
+
+    it('should reject unknown and retired keys', () => {
+      const retired = WebhookSecurity.generateKeys('2023-12');
+      const unknown = WebhookSecurity.generateKeys('rogue');
+      const receiver = new WebhookSecurity({
+        signingKey: retired.signingKey,
+        verificationKeys: [
+          { ...retired.verificationKey, expiresAt: new Date(Date.now() - 1000).toISOString() },
+        ],
+      });
+
+      expect(
+        receiver.validateResponse(
+          body,
+          new WebhookSecurity({ signingKey: retired.signingKey }).generateHeaders(body, requestId),
+          requestId,
+        ),
+      ).toEqual({ valid: false, reason: 'Signing key 2023-12 has been retired' });
+      expect(
+        receiver.validateResponse(
+          body,
+          new WebhookSecurity({ signingKey: unknown.signingKey }).generateHeaders(body, requestId),
+          requestId,
+        ),
+      ).toEqual({ valid: false, reason: 'Unknown signing key ID: rogue' });
+      expect(receiver.getActiveKeyIds()).toEqual([]);
+    });
+
+    it('should not accept a signature made with a different key under a known key ID', () => {
+      const trusted = WebhookSecurity.generateKeys('2024-01');
+      const forged = WebhookSecurity.generateKeys('2024-01');
+      const receiver = new WebhookSecurity({
+        signingKey: trusted.signingKey,
+        verificationKeys: [trusted.verificationKey],
+      });
+      const headers = new WebhookSecurity({ signingKey: forged.signingKey }).generateHeaders(
+        body,
+        requestId,
+      );
+
+      expect(receiver.validateResponse(body, headers, requestId).valid).toBe(false);
+    });
+
+    it('should only accept messages without a key ID when a shared secret is configured', () => {
+      const { signingKey, verificationKey } = WebhookSecurity.generateKeys('2024-01');
+      const receiver = new WebhookSecurity({ signingKey, verificationKeys: [verificationKey] });
+      const headers = security.generateHeaders(body, requestId);
+
+      expect(receiver.validateResponse(body, headers, requestId)).toEqual({
+        valid: false,
+        reason: 'Missing signing key ID',
+      });
+    });
+
+    it('should reject invalid keyrings', () => {
+      const { signingKey, verificationKey } = WebhookSecurity.generateKeys('2024-01');
+
+      expect(() => new WebhookSecurity({})).toThrow(
+        'Webhook security requires a signingSecret or a signingKey',
+      );
+      expect(
+        () =>
+          new WebhookSecurity({ signingKey, verificationKeys: [verificationKey, verificationKey] }),
+      ).toThrow('Duplicate webhook verification key ID: 2024-01');
+      expect(
+        () =>
+          new WebhookSecurity({
+            signingKey: { keyId: 'bad', algorithm: 'ed25519', privateKey: 'not a key' },
+          }),
+      ).toThrow('Invalid key for webhook key "bad"');
+      expect(
+        () =>
+          new WebhookSecurity({
+            signingKey,
+            verificationKeys: [{ keyId: 'hmac', algorithm: 'hmac-sha256', secret: 'short' }],
+          }),
+      ).toThrow('Webhook signing secret must be at least 32 characters');
+    });
+  });
+
   describe('secure comparison', () => {
     it('should use constant-time comparison', () => {
       // This is hard to test directly, but we can at least verify it works correctly